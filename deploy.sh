@@ -153,6 +153,12 @@ if [ ! -f "$HOME/.nexus/.env" ]; then
     echo "  COLOSSEUM_AGENT_ID=your_agent_id"
     echo "  GH_TOKEN=your_github_pat"
     echo ""
+    echo "To reach the status API from outside the VM, also set:"
+    echo ""
+    echo "  STATUS_API_HOST=0.0.0.0"
+    echo "  STATUS_API_TLS_CERT=/path/to/cert.pem"
+    echo "  STATUS_API_TLS_KEY=/path/to/key.pem"
+    echo ""
     echo "Then run: cd ~/nexus && bun run start"
     echo ""
 else
@@ -0,0 +1,496 @@
+/**
+ * Web Dashboard
+ *
+ * Single page served at GET /ui: current goal and its task DAG with the
+ * critical path, a live cycle feed from /events, daily success-rate and
+ * cost charts, circuit breaker trips and the user model. Everything is
+ * inline (no CDN or external assets) and charts are plain SVG.
+ *
+ * The page itself holds no data. It asks for the read token once, keeps
+ * it in localStorage (or takes it from `/ui#token=...`) and sends it as a
+ * Bearer header on every API call, including the event stream.
+ */
+
+/** Blocks anything the page does not load from itself */
+export const DASHBOARD_CSP =
+  "default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; connect-src 'self'; img-src data:";
+
+export const DASHBOARD_HTML = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Nexus Agent</title>
+<style>
+  :root {
+    --bg: #0f1419; --panel: #182028; --line: #2a3540; --text: #d8dee4; --muted: #7d8b99;
+    --green: #3fb950; --red: #f85149; --amber: #d29922; --blue: #58a6ff; --grey: #6e7681; --purple: #bc8cff;
+  }
+  * { box-sizing: border-box; }
+  body { margin: 0; background: var(--bg); color: var(--text); font: 14px/1.4 system-ui, sans-serif; }
+  header { display: flex; gap: 24px; align-items: center; padding: 12px 20px; border-bottom: 1px solid var(--line); flex-wrap: wrap; }
+  header h1 { font-size: 16px; margin: 0; }
+  header .fact { color: var(--muted); }
+  header .fact b { color: var(--text); font-weight: 600; }
+  main { display: grid; grid-template-columns: repeat(auto-fit, minmax(420px, 1fr)); gap: 16px; padding: 16px 20px; }
+  section { background: var(--panel); border: 1px solid var(--line); border-radius: 6px; padding: 12px 14px; min-width: 0; }
+  section.wide { grid-column: 1 / -1; }
+  h2 { font-size: 13px; text-transform: uppercase; letter-spacing: .04em; color: var(--muted); margin: 0 0 10px; }
+  .scroll { overflow: auto; }
+  .muted { color: var(--muted); }
+  .badge { display: inline-block; padding: 1px 8px; border-radius: 10px; font-size: 12px; font-weight: 600; }
+  .closed, .completed, .success { color: var(--green); }
+  .soft_open, .blocked, .partial { color: var(--amber); }
+  .hard_open, .failed, .failure { color: var(--red); }
+  .running { color: var(--blue); }
+  #feed { height: 360px; overflow-y: auto; font: 12px/1.5 ui-monospace, monospace; margin: 0; }
+  #feed div { white-space: pre-wrap; word-break: break-word; border-bottom: 1px solid var(--line); padding: 2px 0; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  td, th { text-align: left; padding: 3px 6px; border-bottom: 1px solid var(--line); vertical-align: top; }
+  th { color: var(--muted); font-weight: 500; }
+  .bar { height: 8px; background: var(--line); border-radius: 4px; overflow: hidden; }
+  .bar span { display: block; height: 100%; background: var(--blue); }
+  form { display: flex; gap: 8px; margin-top: 8px; }
+  input { flex: 1; background: var(--bg); color: var(--text); border: 1px solid var(--line); border-radius: 4px; padding: 6px 8px; }
+  button { background: var(--blue); color: #0f1419; border: 0; border-radius: 4px; padding: 6px 12px; font-weight: 600; cursor: pointer; }
+  #login { max-width: 520px; margin: 80px auto; }
+  svg text { fill: var(--text); font-size: 11px; }
+  .legend span { margin-right: 12px; font-size: 12px; }
+</style>
+</head>
+<body>
+<section id="login" hidden>
+  <h2>Status API token</h2>
+  <p class="muted">Paste the read token from <code>~/.hutch-agent/read-token</code>. It stays in this browser.</p>
+  <p id="login-error" class="failed"></p>
+  <form id="login-form"><input id="token" type="password" autocomplete="off" placeholder="token"><button>Open</button></form>
+</section>
+
+<div id="app" hidden>
+  <header>
+    <h1>Nexus Agent</h1>
+    <span class="fact">State <b id="h-state">-</b></span>
+    <span class="fact">Goal <b id="h-goal">-</b></span>
+    <span class="fact">Task <b id="h-task">-</b></span>
+    <span class="fact">Cycles <b id="h-cycles">-</b></span>
+    <span class="fact">Success <b id="h-success">-</b></span>
+    <span class="fact">Cost today <b id="h-cost">-</b></span>
+    <span class="fact" id="h-stream">stream: connecting</span>
+  </header>
+  <main>
+    <section class="wide">
+      <h2>Goal <span id="dag-title" class="muted"></span></h2>
+      <div class="legend" id="dag-legend"></div>
+      <div class="scroll" id="dag"></div>
+      <p class="muted" id="dag-summary"></p>
+    </section>
+    <section>
+      <h2>Live cycles</h2>
+      <div id="feed"></div>
+    </section>
+    <section>
+      <h2>Success rate by day</h2>
+      <div id="chart-success"></div>
+      <h2>Cost by day</h2>
+      <div id="chart-cost"></div>
+    </section>
+    <section>
+      <h2>Circuit breaker <span id="cb-state" class="badge"></span></h2>
+      <table><thead><tr><th>When</th><th>Level</th><th>Reason</th><th>Message</th></tr></thead><tbody id="cb-trips"></tbody></table>
+    </section>
+    <section>
+      <h2>User model</h2>
+      <div id="user-model"></div>
+    </section>
+  </main>
+</div>
+
+<script>
+(function () {
+  var STATUS_COLORS = {
+    pending: 'var(--grey)', ready: 'var(--purple)', running: 'var(--blue)', completed: 'var(--green)',
+    failed: 'var(--red)', blocked: 'var(--amber)', skipped: 'var(--grey)'
+  };
+  var FEED_TYPES = 'cycle_start,cycle_end,tool_use,tool_result,reflection,breaker_trip';
+  var MAX_FEED = 200;
+  var token = '';
+  var lastEventId = '';
+
+  function $(id) { return document.getElementById(id); }
+
+  function el(tag, attrs, children) {
+    var node = document.createElement(tag);
+    for (var key in attrs || {}) node.setAttribute(key, attrs[key]);
+    (children || []).forEach(function (child) {
+      node.appendChild(typeof child === 'string' ? document.createTextNode(child) : child);
+    });
+    return node;
+  }
+
+  function svg(tag, attrs, text) {
+    var node = document.createElementNS('http://www.w3.org/2000/svg', tag);
+    for (var key in attrs || {}) node.setAttribute(key, attrs[key]);
+    if (text !== undefined) node.textContent = text;
+    return node;
+  }
+
+  function clear(node) { while (node.firstChild) node.removeChild(node.firstChild); return node; }
+
+  function truncate(text, length) { return text.length > length ? text.slice(0, length - 1) + '…' : text; }
+
+  // ------------------------------------------------------------
+  // API
+  // ------------------------------------------------------------
+
+  function api(path) {
+    return fetch(path, { headers: { Authorization: 'Bearer ' + token } }).then(function (res) {
+      if (res.status === 401) throw new Error('unauthorized');
+      if (!res.ok) throw new Error(path + ': HTTP ' + res.status);
+      return res.json();
+    });
+  }
+
+  function showLogin(message) {
+    $('app').hidden = true;
+    $('login').hidden = false;
+    $('login-error').textContent = message || '';
+  }
+
+  function fail(err) {
+    if (err.message === 'unauthorized') {
+      localStorage.removeItem('nexus-token');
+      showLogin('That token was not accepted.');
+    } else {
+      console.error(err);
+    }
+  }
+
+  // ------------------------------------------------------------
+  // Header
+  // ------------------------------------------------------------
+
+  function renderStatus(status) {
+    $('h-state').textContent = status.paused ? 'paused' : status.state;
+    $('h-goal').textContent = status.currentGoal || '-';
+    $('h-task').textContent = status.currentTask || '-';
+    $('h-cycles').textContent = status.cycle.count;
+    $('h-success').textContent = status.health.successRate + '%';
+    $('h-cost').textContent = status.cost.today;
+    renderBreaker(status.circuitBreaker);
+  }
+
+  // ------------------------------------------------------------
+  // Goal DAG
+  // ------------------------------------------------------------
+
+  function renderDag(data) {
+    var box = clear($('dag'));
+    var legend = clear($('dag-legend'));
+    var goal = data.goal;
+    if (!goal) {
+      $('dag-title').textContent = '';
+      $('dag-summary').textContent = 'No active goal';
+      return;
+    }
+    $('dag-title').textContent = goal.name + ' (' + goal.status + ')';
+
+    Object.keys(STATUS_COLORS).forEach(function (status) {
+      var item = el('span', {}, ['■ ' + status]);
+      item.style.color = STATUS_COLORS[status];
+      legend.appendChild(item);
+    });
+
+    // Column = longest chain of dependencies before the task
+    var byId = {};
+    goal.tasks.forEach(function (task) { byId[task.id] = task; });
+    var depths = {};
+    function depth(id, seen) {
+      if (depths[id] !== undefined) return depths[id];
+      if (seen[id]) return 0;
+      seen[id] = true;
+      var deps = (byId[id].dependencies || []).filter(function (dep) { return byId[dep]; });
+      var d = deps.length ? 1 + Math.max.apply(null, deps.map(function (dep) { return depth(dep, seen); })) : 0;
+      depths[id] = d;
+      return d;
+    }
+    var columns = [];
+    goal.tasks.forEach(function (task) {
+      var d = depth(task.id, {});
+      (columns[d] = columns[d] || []).push(task);
+    });
+
+    var W = 190, H = 40, GX = 60, GY = 16, PAD = 10;
+    var pos = {};
+    columns.forEach(function (column, c) {
+      column.forEach(function (task, r) { pos[task.id] = { x: PAD + c * (W + GX), y: PAD + r * (H + GY) }; });
+    });
+    var rows = Math.max.apply(null, columns.map(function (column) { return column.length; }));
+    var width = PAD * 2 + columns.length * W + (columns.length - 1) * GX;
+    var height = PAD * 2 + rows * H + (rows - 1) * GY;
+
+    var critical = data.analysis.criticalPath || [];
+    var onPath = {};
+    critical.forEach(function (id) { onPath[id] = true; });
+    var criticalEdges = {};
+    for (var i = 1; i < critical.length; i++) criticalEdges[critical[i - 1] + '>' + critical[i]] = true;
+
+    var root = svg('svg', { width: width, height: height, viewBox: '0 0 ' + width + ' ' + height });
+    goal.tasks.forEach(function (task) {
+      (task.dependencies || []).forEach(function (dep) {
+        if (!pos[dep]) return;
+        var a = pos[dep], b = pos[task.id];
+        var x1 = a.x + W, y1 = a.y + H / 2, x2 = b.x, y2 = b.y + H / 2, mid = (x1 + x2) / 2;
+        var hot = criticalEdges[dep + '>' + task.id];
+        root.appendChild(svg('path', {
+          d: 'M' + x1 + ',' + y1 + ' C' + mid + ',' + y1 + ' ' + mid + ',' + y2 + ' ' + x2 + ',' + y2,
+          fill: 'none', stroke: hot ? 'var(--amber)' : 'var(--line)', 'stroke-width': hot ? 2.5 : 1.5
+        }));
+      });
+    });
+    goal.tasks.forEach(function (task) {
+      var p = pos[task.id];
+      var group = svg('g', {});
+      group.appendChild(svg('title', {}, task.id + ': ' + task.name + ' [' + task.status + ']' + (task.blockReason ? ' - ' + task.blockReason : '')));
+      group.appendChild(svg('rect', {
+        x: p.x, y: p.y, width: W, height: H, rx: 5, fill: 'var(--bg)',
+        stroke: onPath[task.id] ? 'var(--amber)' : STATUS_COLORS[task.status] || 'var(--grey)',
+        'stroke-width': onPath[task.id] ? 2.5 : 1.5
+      }));
+      group.appendChild(svg('rect', { x: p.x, y: p.y, width: 5, height: H, rx: 2, fill: STATUS_COLORS[task.status] || 'var(--grey)' }));
+      group.appendChild(svg('text', { x: p.x + 12, y: p.y + 16 }, truncate(task.name, 27)));
+      var meta = svg('text', { x: p.x + 12, y: p.y + 31 }, task.status + (task.currentRetries ? ' · retry ' + task.currentRetries : ''));
+      meta.style.fill = STATUS_COLORS[task.status] || 'var(--muted)';
+      group.appendChild(meta);
+      root.appendChild(group);
+    });
+    box.appendChild(root);
+
+    var a = data.analysis;
+    $('dag-summary').textContent =
+      a.completedTasks + '/' + a.totalTasks + ' done, ' + a.readyTasks + ' ready, ' + a.runningTasks + ' running, ' +
+      a.blockedTasks + ' blocked, ' + a.failedTasks + ' failed' +
+      (critical.length ? ' · critical path: ' + critical.join(' → ') : '') +
+      (a.hasCycle ? ' · dependency cycle!' : '');
+  }
+
+  // ------------------------------------------------------------
+  // Charts
+  // ------------------------------------------------------------
+
+  function barChart(container, points, max, color, format) {
+    clear(container);
+    if (!points.length) {
+      container.appendChild(el('p', { class: 'muted' }, ['No cycles recorded yet']));
+      return;
+    }
+    var W = 420, H = 130, BOTTOM = 18, TOP = 14;
+    var step = W / points.length;
+    var root = svg('svg', { width: '100%', height: H, viewBox: '0 0 ' + W + ' ' + H });
+    root.appendChild(svg('line', { x1: 0, y1: H - BOTTOM, x2: W, y2: H - BOTTOM, stroke: 'var(--line)' }));
+    points.forEach(function (point, i) {
+      var h = max > 0 ? (point.value / max) * (H - BOTTOM - TOP) : 0;
+      var x = i * step + step * 0.15;
+      var bar = svg('rect', { x: x, y: H - BOTTOM - h, width: step * 0.7, height: Math.max(h, 0.5), fill: color, rx: 2 });
+      bar.appendChild(svg('title', {}, point.label + ': ' + format(point.value)));
+      root.appendChild(bar);
+      if (points.length <= 14 || i % 2 === 0) {
+        root.appendChild(svg('text', { x: x + step * 0.35, y: H - 4, 'text-anchor': 'middle' }, point.label));
+      }
+      if (points.length <= 14) {
+        root.appendChild(svg('text', { x: x + step * 0.35, y: H - BOTTOM - h - 3, 'text-anchor': 'middle' }, format(point.value)));
+      }
+    });
+    container.appendChild(root);
+  }
+
+  function renderCharts(metrics) {
+    var days = (metrics.daily || []).slice(-14);
+    barChart($('chart-success'), days.map(function (day) {
+      return { label: day.date.slice(5), value: day.cycles ? Math.round((day.successes / day.cycles) * 100) : 0 };
+    }), 100, 'var(--green)', function (v) { return v + '%'; });
+
+    var costs = days.map(function (day) { return { label: day.date.slice(5), value: day.estimatedCostCents / 100 }; });
+    var maxCost = Math.max.apply(null, costs.map(function (c) { return c.value; }).concat([0.01]));
+    barChart($('chart-cost'), costs, maxCost, 'var(--blue)', function (v) { return '$' + v.toFixed(2); });
+  }
+
+  // ------------------------------------------------------------
+  // Circuit breaker
+  // ------------------------------------------------------------
+
+  function renderBreaker(breaker) {
+    var state = breaker ? breaker.state : 'closed';
+    $('cb-state').textContent = state.replace('_', ' ');
+    $('cb-state').className = 'badge ' + state;
+
+    var body = clear($('cb-trips'));
+    var trips = breaker ? breaker.trips.slice().reverse() : [];
+    if (!trips.length) {
+      body.appendChild(el('tr', {}, [el('td', { colspan: 4, class: 'muted' }, ['No trips'])]));
+    }
+    trips.forEach(function (trip) {
+      body.appendChild(el('tr', {}, [
+        el('td', {}, [new Date(trip.timestamp).toLocaleString()]),
+        el('td', { class: trip.level === 'hard' ? 'hard_open' : 'soft_open' }, [trip.level]),
+        el('td', {}, [trip.reason + (trip.taskId ? ' [' + trip.taskId + ']' : '')]),
+        el('td', {}, [trip.message])
+      ]));
+    });
+  }
+
+  // ------------------------------------------------------------
+  // User model
+  // ------------------------------------------------------------
+
+  function meter(label, value) {
+    var fill = el('span');
+    fill.style.width = Math.round(value * 100) + '%';
+    return el('tr', {}, [el('td', {}, [label]), el('td', { style: 'width:55%' }, [el('div', { class: 'bar' }, [fill])])]);
+  }
+
+  function renderUserModel(model) {
+    var box = clear($('user-model'));
+    var c = model.communication;
+    var rows = [
+      el('tr', {}, [el('td', {}, ['Response length']), el('td', {}, [c.responseLength])]),
+      meter('Formality', c.formalityLevel),
+      meter('Technical depth', c.technicalDepth),
+      meter('Thoroughness over speed', model.traits.speedVsThoroughness),
+      meter('Error tolerance', model.traits.errorTolerance)
+    ];
+    model.expertise.forEach(function (e) { rows.push(meter('Expertise: ' + e.domain, e.proficiency)); });
+    box.appendChild(el('table', {}, rows));
+
+    var notes = model.guidelines.concat(model.notes);
+    if (notes.length) {
+      box.appendChild(el('ul', {}, notes.map(function (note) { return el('li', {}, [note]); })));
+    }
+    if (model.taskPatterns.length) {
+      box.appendChild(el('table', {}, [el('tr', {}, [el('th', {}, ['Task type']), el('th', {}, ['Count']), el('th', {}, ['Success'])])]
+        .concat(model.taskPatterns.map(function (p) {
+          return el('tr', {}, [el('td', {}, [p.type]), el('td', {}, [String(p.frequency)]), el('td', {}, [Math.round(p.successRate * 100) + '%'])]);
+        }))));
+    }
+  }
+
+  // ------------------------------------------------------------
+  // Live feed (fetch-based SSE so the token goes in a header)
+  // ------------------------------------------------------------
+
+  function describe(event) {
+    var d = event.data;
+    var task = d.taskId ? ' [' + d.taskId + ']' : '';
+    switch (event.type) {
+      case 'cycle_start': return '▶ cycle ' + d.cycle + ' ' + d.goalName + (d.taskIds.length ? ': ' + d.taskIds.join(', ') : '');
+      case 'cycle_end': return '■ cycle ' + d.cycle + ' ' + (d.error ? 'error: ' + d.error : d.tasks.map(function (t) {
+        return (t.taskId || 'explore') + (t.success ? ' ✓' : ' ✗');
+      }).join(', ')) + ' (' + Math.round(d.durationMs / 1000) + 's)';
+      case 'tool_use': return '  🔧' + task + ' ' + d.tool + ' ' + truncate(JSON.stringify(d.input || {}), 100);
+      case 'tool_result': return '  ' + (d.success ? '✓' : '✗') + task + ' ' + d.preview;
+      case 'reflection': return '💭' + task + ' ' + d.outcome + ': ' + d.summary;
+      case 'breaker_trip': return '⚡' + task + ' ' + d.level + ' trip (' + d.reason + '): ' + d.message;
+      default: return event.type;
+    }
+  }
+
+  function addToFeed(event) {
+    var feed = $('feed');
+    var stick = feed.scrollTop + feed.clientHeight >= feed.scrollHeight - 20;
+    var line = el('div', { title: event.at }, [event.at.slice(11, 19) + ' ' + describe(event)]);
+    if (event.type === 'cycle_end') line.className = event.data.error || event.data.tasks.some(function (t) { return !t.success; }) ? 'failure' : 'success';
+    if (event.type === 'breaker_trip') line.className = 'failure';
+    feed.appendChild(line);
+    while (feed.childNodes.length > MAX_FEED) feed.removeChild(feed.firstChild);
+    if (stick) feed.scrollTop = feed.scrollHeight;
+
+    if (event.type === 'cycle_end' || event.type === 'breaker_trip') refresh();
+  }
+
+  function stream() {
+    var headers = { Authorization: 'Bearer ' + token };
+    if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+    $('h-stream').textContent = 'stream: connecting';
+
+    fetch('/events?types=' + FEED_TYPES, { headers: headers }).then(function (res) {
+      if (!res.ok || !res.body) throw new Error('HTTP ' + res.status);
+      $('h-stream').textContent = 'stream: live';
+      var reader = res.body.getReader();
+      var decoder = new TextDecoder();
+      var buffer = '';
+
+      function pump() {
+        return reader.read().then(function (chunk) {
+          if (chunk.done) throw new Error('stream closed');
+          buffer += decoder.decode(chunk.value, { stream: true });
+          var end;
+          while ((end = buffer.indexOf('\\n\\n')) !== -1) {
+            var frame = buffer.slice(0, end);
+            buffer = buffer.slice(end + 2);
+            var data = frame.split('\\n').filter(function (l) { return l.indexOf('data: ') === 0; })[0];
+            if (!data) continue;
+            var event = JSON.parse(data.slice(6));
+            lastEventId = event.id;
+            addToFeed(event);
+          }
+          return pump();
+        });
+      }
+      return pump();
+    }).catch(function () {
+      $('h-stream').textContent = 'stream: reconnecting';
+      setTimeout(stream, 3000);
+    });
+  }
+
+  // ------------------------------------------------------------
+  // Startup
+  // ------------------------------------------------------------
+
+  var started = false;
+  var refreshing = false;
+  function refresh() {
+    if (refreshing) return;
+    refreshing = true;
+    Promise.all([
+      api('/status').then(renderStatus),
+      api('/dag').then(renderDag),
+      api('/metrics').then(renderCharts)
+    ]).catch(fail).then(function () { refreshing = false; });
+  }
+
+  function start() {
+    api('/status').then(function (status) {
+      $('login').hidden = true;
+      $('app').hidden = false;
+      renderStatus(status);
+      if (started) return;
+      started = true;
+      refresh();
+      api('/user-model').then(renderUserModel).catch(fail);
+      stream();
+      // Background tabs don't poll; they catch up when shown again
+      setInterval(function () { if (!document.hidden) refresh(); }, 15000);
+      setInterval(function () { if (!document.hidden) api('/user-model').then(renderUserModel).catch(fail); }, 60000);
+      document.addEventListener('visibilitychange', function () { if (!document.hidden) refresh(); });
+    }).catch(fail);
+  }
+
+  $('login-form').addEventListener('submit', function (e) {
+    e.preventDefault();
+    token = $('token').value.trim();
+    localStorage.setItem('nexus-token', token);
+    start();
+  });
+
+  var fromHash = /token=([^&]+)/.exec(location.hash);
+  if (fromHash) {
+    localStorage.setItem('nexus-token', decodeURIComponent(fromHash[1]));
+    history.replaceState(null, '', location.pathname);
+  }
+  token = localStorage.getItem('nexus-token') || '';
+  if (token) start(); else showLogin();
+})();
+</script>
+</body>
+</html>
+`;
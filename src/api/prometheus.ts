@@ -0,0 +1,142 @@
+/**
+ * Prometheus Exposition
+ *
+ * Renders agent telemetry in the Prometheus text format (version 0.0.4)
+ * for GET /metrics/prometheus. Counters come from the lifetime totals in
+ * telemetry.json, so they only grow and survive restarts. Gauges are read
+ * at scrape time: heartbeat health, circuit breaker state, HutchMem
+ * availability and the depth of the task, approval, question and control
+ * queues.
+ */
+
+import { CYCLE_DURATION_BUCKETS_MS, TelemetryData } from '../core/telemetry.js';
+import type { HealthMetrics } from '../core/heartbeat.js';
+import type { CircuitState } from '../core/circuit-breaker.js';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const CIRCUIT_STATES: CircuitState[] = ['closed', 'soft_open', 'hard_open'];
+
+export interface PrometheusSources {
+  telemetry: TelemetryData;
+  /** Only available when the API runs inside the loop */
+  health?: HealthMetrics;
+  circuitState?: CircuitState;
+  hutchMemAvailable: boolean;
+  running: boolean;
+  paused: boolean;
+  /** Tasks of active goals by status */
+  tasks: Record<string, number>;
+  /** Work waiting on the agent or on a human */
+  queues: {
+    ready_tasks: number;
+    approvals: number;
+    questions: number;
+    control: number;
+  };
+}
+
+interface Sample {
+  labels?: Record<string, string>;
+  value: number;
+  /** Appended to the family name (_bucket, _sum, _count) */
+  suffix?: string;
+}
+
+/**
+ * Render every metric family
+ */
+export function renderPrometheus(sources: PrometheusSources): string {
+  const { telemetry, health } = sources;
+  const lifetime = telemetry.lifetime;
+  const lines: string[] = [];
+
+  const family = (name: string, type: 'counter' | 'gauge' | 'histogram', help: string, samples: Sample[]) => {
+    lines.push(`# HELP ${name} ${help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    lines.push(`# TYPE ${name} ${type}`);
+    for (const sample of samples) {
+      lines.push(`${name}${sample.suffix || ''}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+    }
+  };
+
+  family('nexus_up', 'gauge', 'Whether the agent process is running', [
+    { value: sources.running ? 1 : 0 },
+  ]);
+  family('nexus_paused', 'gauge', 'Whether the agent was paused through the control API', [
+    { value: sources.paused ? 1 : 0 },
+  ]);
+
+  // Cycles
+  family('nexus_cycles_total', 'counter', 'Agent cycles by outcome', [
+    { labels: { outcome: 'success' }, value: lifetime.successes },
+    { labels: { outcome: 'failure' }, value: lifetime.failures },
+  ]);
+  family('nexus_approach_cycles_total', 'counter', 'Agent cycles by approach and outcome',
+    Object.entries(lifetime.approaches || {}).flatMap(([approach, counts]) => [
+      { labels: { approach, outcome: 'success' }, value: counts.successes },
+      { labels: { approach, outcome: 'failure' }, value: counts.failures },
+    ]));
+
+  const histogram = lifetime.cycleDuration;
+  const bucketSamples: Sample[] = [];
+  let cumulative = 0;
+  CYCLE_DURATION_BUCKETS_MS.forEach((bound, i) => {
+    cumulative += histogram?.bucketCounts[i] || 0;
+    bucketSamples.push({ suffix: '_bucket', labels: { le: String(bound / 1000) }, value: cumulative });
+  });
+  bucketSamples.push(
+    { suffix: '_bucket', labels: { le: '+Inf' }, value: histogram?.count || 0 },
+    { suffix: '_sum', value: (histogram?.sumMs || 0) / 1000 },
+    { suffix: '_count', value: histogram?.count || 0 },
+  );
+  family('nexus_cycle_duration_seconds', 'histogram', 'Wall-clock time of agent cycles', bucketSamples);
+
+  // Usage and cost
+  family('nexus_tokens_total', 'counter', 'Model tokens used by sessions', [
+    { labels: { type: 'input' }, value: lifetime.tokensInput },
+    { labels: { type: 'output' }, value: lifetime.tokensOutput },
+    { labels: { type: 'cache_read' }, value: lifetime.tokensCacheRead || 0 },
+  ]);
+  family('nexus_cost_usd_total', 'counter', 'Session cost in US dollars (reported or estimated)', [
+    { value: lifetime.estimatedCostCents / 100 },
+  ]);
+  family('nexus_tool_calls_total', 'counter', 'Tool calls made by sessions',
+    Object.entries(lifetime.toolUsage || {}).map(([tool, count]) => ({ labels: { tool }, value: count })));
+
+  // Reliability
+  family('nexus_circuit_breaker_state', 'gauge', 'Circuit breaker state (1 for the current one)',
+    CIRCUIT_STATES.map(state => ({ labels: { state }, value: state === (sources.circuitState || 'closed') ? 1 : 0 })));
+  family('nexus_hutchmem_up', 'gauge', 'Whether the HutchMem worker is reachable', [
+    { value: sources.hutchMemAvailable ? 1 : 0 },
+  ]);
+
+  if (health) {
+    family('nexus_healthy', 'gauge', 'Heartbeat health verdict', [{ value: health.isHealthy ? 1 : 0 }]);
+    family('nexus_uptime_seconds', 'gauge', 'Seconds since the loop started', [{ value: health.uptime }]);
+    family('nexus_consecutive_failures', 'gauge', 'Failed cycles in a row', [{ value: health.consecutiveFailures }]);
+    family('nexus_success_rate_percent', 'gauge', 'Cycle success rate since the loop started', [{ value: health.successRate }]);
+    family('nexus_heap_used_bytes', 'gauge', 'JavaScript heap in use', [{ value: health.memoryUsageMB * 1024 * 1024 }]);
+  }
+
+  // Queues
+  family('nexus_tasks', 'gauge', 'Tasks of active goals by status',
+    Object.entries(sources.tasks).map(([status, count]) => ({ labels: { status }, value: count })));
+  family('nexus_queue_depth', 'gauge', 'Items waiting: ready tasks, approvals, questions and control commands',
+    Object.entries(sources.queues).map(([queue, count]) => ({ labels: { queue }, value: count })));
+
+  return lines.join('\n') + '\n';
+}
+
+function formatLabels(labels?: Record<string, string>): string {
+  if (!labels || Object.keys(labels).length === 0) return '';
+  const pairs = Object.entries(labels).map(([key, value]) =>
+    `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return `{${pairs.join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+  return String(value);
+}
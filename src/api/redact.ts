@@ -0,0 +1,40 @@
+/**
+ * Secret Redaction
+ *
+ * GET /config serves the resolved config, which may carry credentials
+ * (from config.json, .env or URLs with a user:password part). Values under
+ * secret-looking keys are replaced, and passwords or tokens embedded in
+ * URLs are masked.
+ */
+
+/** Config keys whose values are never served */
+const SECRET_KEY = /(token|secret|password|passwd|api_?key|credentials?|private_?key)$/i;
+
+/**
+ * Copy of a config value with secrets masked: secret-looking keys, and
+ * passwords or tokens embedded in URLs
+ */
+export function redactSecrets(value: unknown, key: string = ''): unknown {
+  if (SECRET_KEY.test(key) && value !== '' && value !== null && value !== undefined) {
+    return '[redacted]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactSecrets(item));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactSecrets(v, k)]));
+  }
+  if (typeof value === 'string' && /^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+    try {
+      const url = new URL(value);
+      if (url.password) url.password = 'redacted';
+      for (const param of [...url.searchParams.keys()]) {
+        if (SECRET_KEY.test(param) || param === 'key') url.searchParams.set(param, 'redacted');
+      }
+      return url.href === value ? value : url.href;
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
@@ -5,20 +5,84 @@
  * Useful for monitoring and debugging.
  *
  * Endpoints:
- * - GET /status - Current agent status
+ * - GET /status - Current agent status, scheduling policy and time per goal
  * - GET /metrics - Telemetry and cost data
+ * - GET /metrics/prometheus - The same telemetry plus health and queue
+ *   gauges in the Prometheus text format
+ * - GET /ui - Web dashboard (asks for the read token in the browser)
+ * - GET /dag - A goal's tasks with the DAG analysis (?goal=id, default current)
  * - GET /health - Simple health check
  * - GET /user-model - User preferences
+ * - GET /budget - Budget burn-down
+ * - GET /approvals - Pending approval requests (?all=1 for every request)
+ * - GET /approvals/:id - One request with its plan and diff
+ * - POST /approvals/:id/approve|reject - Decide a request ({"note": "..."})
+ * - GET /events - Live Server-Sent Events (?types=tool_use,log to filter,
+ *   ?follow=0 for the buffered events only); Last-Event-ID replays missed ones
+ * - GET /control - Pause state and recent control commands
+ * - POST /control/pause|resume - Stop starting cycles / carry on ({"reason": "..."})
+ * - POST /tasks/:id/skip|retry|unblock - Change a task ({"reason": "..."})
+ * - POST /goals/:id/tasks - Add a task ({"name", "description", "dependencies", "priority", "id"})
+ *
+ * Control commands are queued and applied by the loop at the start of a
+ * cycle or between its phases (202 Accepted); GET /control shows what
+ * became of them.
+ *
+ * Every endpoint but /health and /ui needs `Authorization: Bearer <token>`. The
+ * read token (~/.hutch-agent/read-token) opens the GET endpoints; POST
+ * endpoints need the control token (~/.hutch-agent/control-token), which
+ * also reads. Both are created on first start.
+ *
+ * The server binds to STATUS_API_HOST (loopback by default) and serves
+ * HTTPS when STATUS_API_TLS_CERT and STATUS_API_TLS_KEY are set. Browsers
+ * may only call it from STATUS_API_CORS_ORIGINS. Request bodies over 64 KB
+ * are refused with 413.
  */
 
 import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { createServer as createTlsServer } from 'https';
 import { getTelemetry } from '../core/telemetry.js';
 import { getUserModel } from '../memory/user-model.js';
-import { getConfig, AGENT_DIR, PID_FILE, STATE_FILE, LOG_FILE } from '../core/config.js';
-import { existsSync, readFileSync } from 'fs';
-import { join } from 'path';
+import { BudgetManager } from '../core/budget.js';
+import { DAGScheduler } from '../scheduler/dag-scheduler.js';
+import { ApprovalStore } from '../core/approvals.js';
+import { ControlQueue, ControlCommand, parseInjectedTask } from '../core/control.js';
+import { getEventBus, AgentEvent } from '../core/events.js';
+import { HelpInbox } from '../core/inbox.js';
+import type { HealthMetrics } from '../core/heartbeat.js';
+import type { CircuitBreakerSnapshot } from '../core/circuit-breaker.js';
+import { getHutchMem } from '../memory/bridge.js';
+import { renderPrometheus, PROMETHEUS_CONTENT_TYPE } from './prometheus.js';
+import { DASHBOARD_HTML, DASHBOARD_CSP } from './dashboard.js';
+import { redactSecrets } from './redact.js';
+import {
+  getConfig,
+  PID_FILE,
+  STATE_FILE,
+  LOG_FILE,
+  STATUS_API_PORT,
+  STATUS_API_HOST,
+  STATUS_API_TLS_CERT,
+  STATUS_API_TLS_KEY,
+  STATUS_API_CORS_ORIGINS,
+  CONTROL_TOKEN_FILE,
+  READ_TOKEN_FILE,
+  CIRCUIT_STATE_FILE,
+  DAG_STATE_FILE,
+} from '../core/config.js';
+import { existsSync, readFileSync, writeFileSync, mkdirSync, statSync } from 'fs';
+import { dirname } from 'path';
+import { randomBytes, timingSafeEqual } from 'crypto';
+
+export interface StatusServerOptions {
+  /** Called after a control command is queued (wakes an idle loop) */
+  onControl?: () => void;
+  /** Live heartbeat metrics for /metrics/prometheus */
+  health?: () => HealthMetrics;
+}
 
-const DEFAULT_PORT = 37778; // One above HutchMem
+let onControl: (() => void) | undefined;
+let getHealth: (() => HealthMetrics) | undefined;
 
 // ============================================================
 // State Accessors
@@ -35,6 +99,17 @@ function getAgentState(): Record<string, unknown> | null {
   return null;
 }
 
+function getCircuitSnapshot(): CircuitBreakerSnapshot | null {
+  try {
+    if (existsSync(CIRCUIT_STATE_FILE)) {
+      return JSON.parse(readFileSync(CIRCUIT_STATE_FILE, 'utf-8'));
+    }
+  } catch {
+    // Ignore
+  }
+  return null;
+}
+
 function isAgentRunning(): boolean {
   try {
     if (existsSync(PID_FILE)) {
@@ -61,40 +136,189 @@ function getRecentLogs(lines: number = 50): string[] {
   return [];
 }
 
+/** What a token allows: control implies read */
+type TokenScope = 'read' | 'control';
+
+/**
+ * Token stored in `file`, created on first use
+ */
+function getToken(file: string): string {
+  if (existsSync(file)) {
+    return readFileSync(file, 'utf-8').trim();
+  }
+
+  const token = randomBytes(24).toString('hex');
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, token, { mode: 0o600 });
+  return token;
+}
+
+function tokenMatches(given: string, file: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(getToken(file));
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Scope of the request's bearer token, or null without a valid one
+ */
+function getScope(req: IncomingMessage): TokenScope | null {
+  const given = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  if (!given) return null;
+  if (tokenMatches(given, CONTROL_TOKEN_FILE)) return 'control';
+  if (tokenMatches(given, READ_TOKEN_FILE)) return 'read';
+  return null;
+}
+
+/**
+ * Refuse a request without the control scope; true if it may go ahead
+ */
+function requireControl(req: IncomingMessage, res: ServerResponse): boolean {
+  const scope = getScope(req);
+  if (scope === 'control') return true;
+
+  if (scope === 'read') {
+    sendJson(res, 403, { error: 'This endpoint needs the control token' });
+  } else {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    sendJson(res, 401, { error: 'Missing or invalid control token' });
+  }
+  return false;
+}
+
+/** Largest request body read; POST bodies are a reason or a task at most */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * A request the server refuses with a status other than 400
+ */
+class RequestError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const tooLarge = () => new RequestError(413, `Request body is larger than ${MAX_BODY_BYTES / 1024} KB`);
+    if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+      reject(tooLarge());
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Stop reading; the handler answers and then drops the connection
+        req.removeAllListeners('data');
+        req.pause();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf-8');
+      try {
+        resolve(body.trim() ? JSON.parse(body) : {});
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Answer a failed POST handler; an oversized body is not read any further
+ */
+function sendRequestError(req: IncomingMessage, res: ServerResponse, path: string, err: any): void {
+  console.error(`[StatusAPI] Error handling ${path}:`, err);
+
+  const status = err instanceof RequestError ? err.status : 400;
+  if (status === 413) {
+    res.setHeader('Connection', 'close');
+    res.on('finish', () => req.destroy());
+  }
+  sendJson(res, status, { error: err.message });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+/** Scheduler last read by a handler, reused until dag-state.json changes */
+let schedulerSnapshot: { mtimeMs: number; scheduler: DAGScheduler } | null = null;
+
+/**
+ * Read-only view of the saved DAG
+ *
+ * The dashboard polls several endpoints at once; the state file is only
+ * read again after the loop has saved it.
+ */
+async function readScheduler(): Promise<DAGScheduler> {
+  const mtimeMs = existsSync(DAG_STATE_FILE) ? statSync(DAG_STATE_FILE).mtimeMs : 0;
+  if (!schedulerSnapshot || schedulerSnapshot.mtimeMs !== mtimeMs) {
+    const scheduler = new DAGScheduler();
+    await scheduler.loadState({ quiet: true });
+    schedulerSnapshot = { mtimeMs, scheduler };
+  }
+  return schedulerSnapshot.scheduler;
+}
+
 // ============================================================
 // Request Handlers
 // ============================================================
 
-function handleStatus(res: ServerResponse): void {
+async function handleStatus(res: ServerResponse): Promise<void> {
+  const scheduler = await readScheduler();
+
   const state = getAgentState();
   const running = isAgentRunning();
   const telemetry = getTelemetry();
   const stats = telemetry.getStats();
 
+  const circuit = getCircuitSnapshot();
+  const progress = (state?.progress as Record<string, number>) || {};
+  const health = (state?.health as { consecutiveFailures?: number }) || {};
+  const consecutiveFailures = health.consecutiveFailures || 0;
+
   const status = {
     running,
     state: state?.state || 'unknown',
-    uptime: state?.startTime ? Date.now() - (state.startTime as number) : 0,
+    paused: state?.paused || null,
+    agentId: state?.agentId || null,
+    uptime: state?.startedAt ? Date.now() - new Date(state.startedAt as string).getTime() : 0,
     currentGoal: state?.currentGoal || null,
     currentTask: state?.currentTask || null,
-    progress: {
-      completed: state?.tasksCompleted || 0,
-      total: state?.tasksTotal || 0,
-      percentage: state?.progress || 0,
-    },
+    progress,
     cycle: {
       count: state?.cycleCount || 0,
-      lastCycleTime: state?.lastCycleTime || null,
-      consecutiveFailures: state?.consecutiveFailures || 0,
+      lastCycleTime: state?.lastCycleAt || null,
+      consecutiveFailures,
     },
     health: {
       successRate: stats.successRate,
-      isHealthy: stats.successRate > 20 && ((state?.consecutiveFailures as number) || 0) < 5,
+      isHealthy: stats.successRate > 20 && consecutiveFailures < 5,
     },
     cost: {
       today: telemetry.formatCost(stats.costToday),
       total: telemetry.formatCost(stats.costTotal),
     },
+    budget: new BudgetManager().getGlobalLines(),
+    pendingApprovals: new ApprovalStore().list('pending').length,
+    circuitBreaker: {
+      state: circuit?.state || 'closed',
+      trips: circuit?.tripEvents.slice(-20) || [],
+    },
+    scheduling: {
+      policy: getConfig().scheduling.policy,
+      goals: scheduler.getTimeShares(),
+    },
     timestamp: new Date().toISOString(),
   };
 
@@ -121,6 +345,7 @@ function handleMetrics(res: ServerResponse): void {
     tools: toolStats.slice(0, 10),
     approaches: approachStats,
     errors: errorStats,
+    daily: telemetry.getData().daily,
     timestamp: new Date().toISOString(),
   };
 
@@ -128,10 +353,262 @@ function handleMetrics(res: ServerResponse): void {
   res.end(JSON.stringify(metrics, null, 2));
 }
 
+async function handlePrometheus(res: ServerResponse): Promise<void> {
+  const scheduler = await readScheduler();
+
+  const tasks: Record<string, number> = {};
+  for (const goal of scheduler.getGoals().filter(g => g.status === 'active')) {
+    for (const task of goal.tasks) {
+      tasks[task.status] = (tasks[task.status] || 0) + 1;
+    }
+  }
+
+  const body = renderPrometheus({
+    telemetry: getTelemetry().getData(),
+    health: getHealth?.(),
+    circuitState: getCircuitSnapshot()?.state,
+    hutchMemAvailable: await getHutchMem().refreshAvailability(),
+    running: isAgentRunning(),
+    paused: !!getAgentState()?.paused,
+    tasks,
+    queues: {
+      ready_tasks: tasks.ready || 0,
+      approvals: new ApprovalStore().list('pending').length,
+      questions: new HelpInbox().list('open').length,
+      control: new ControlQueue().list('queued').length,
+    },
+  });
+
+  res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+  res.end(body);
+}
+
+/**
+ * GET /dag - tasks of one goal with status counts and the critical path
+ */
+async function handleDag(res: ServerResponse, url: URL): Promise<void> {
+  const scheduler = await readScheduler();
+
+  const goals = scheduler.getGoals();
+  const requested = url.searchParams.get('goal');
+  const goal = requested
+    ? goals.find(g => g.id === requested)
+    : scheduler.getCurrentGoal() || goals.find(g => g.status === 'active');
+
+  if (requested && !goal) {
+    sendJson(res, 404, { error: `No goal ${requested}` });
+    return;
+  }
+
+  sendJson(res, 200, {
+    goals: goals.map(g => ({ id: g.id, name: g.name, status: g.status, priority: g.priority })),
+    goal: goal
+      ? {
+          id: goal.id,
+          name: goal.name,
+          status: goal.status,
+          deadline: goal.deadline,
+          tasks: goal.tasks.map(t => ({
+            id: t.id,
+            name: t.name,
+            status: t.status,
+            dependencies: t.dependencies,
+            priority: t.priority,
+            currentRetries: t.currentRetries,
+            maxRetries: t.maxRetries,
+            blockReason: t.blockReason,
+            injectedBy: t.injectedBy,
+          })),
+        }
+      : null,
+    analysis: scheduler.analyzeDAG(goal || undefined),
+  });
+}
+
+function handleDashboard(res: ServerResponse): void {
+  res.writeHead(200, {
+    'Content-Type': 'text/html; charset=utf-8',
+    'Content-Security-Policy': DASHBOARD_CSP,
+    'Cache-Control': 'no-cache',
+  });
+  res.end(DASHBOARD_HTML);
+}
+
+async function handleBudget(res: ServerResponse): Promise<void> {
+  const scheduler = await readScheduler();
+
+  const budget = new BudgetManager();
+  const activeGoals = scheduler.getGoals().filter(g => g.status === 'active');
+
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    lines: budget.getLines(scheduler.getGoals()),
+    exhausted: budget.getExhausted(),
+    goalsOverBudget: activeGoals.filter(g => budget.isGoalExhausted(g)).map(g => g.id),
+    throttleMultiplier: budget.getThrottleMultiplier(),
+    resetsInMs: budget.msUntilReset(),
+    timestamp: new Date().toISOString(),
+  }, null, 2));
+}
+
+/**
+ * GET /events - the event bus as Server-Sent Events
+ */
+function handleEvents(req: IncomingMessage, res: ServerResponse, url: URL): void {
+  const bus = getEventBus();
+  const types = url.searchParams.get('types')?.split(',').map(t => t.trim()).filter(Boolean);
+  const lastEventId = (req.headers['last-event-id'] as string | undefined) || url.searchParams.get('lastEventId');
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  // Send headers now so clients see the stream open before the first event
+  res.flushHeaders();
+
+  const send = (event: AgentEvent) => {
+    if (types && !types.includes(event.type)) return;
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  for (const event of bus.since(lastEventId)) {
+    send(event);
+  }
+  if (url.searchParams.get('follow') === '0') {
+    res.end();
+    return;
+  }
+
+  const unsubscribe = bus.subscribe(send);
+  // Comments keep proxies from closing an idle stream
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+  req.on('close', () => {
+    unsubscribe();
+    clearInterval(keepAlive);
+  });
+}
+
+/**
+ * GET /control, POST /control/(pause|resume), POST /tasks/:id/(skip|retry|unblock)
+ * and POST /goals/:id/tasks
+ */
+async function handleControl(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+  const queue = new ControlQueue();
+  const [, area, id, action] = url.pathname.split('/');
+
+  if (req.method !== 'POST') {
+    if (area === 'control' && !id) {
+      sendJson(res, 200, {
+        paused: getAgentState()?.paused || null,
+        queued: queue.list('queued'),
+        recent: queue.list().filter(c => c.status !== 'queued').reverse(),
+        timestamp: new Date().toISOString(),
+      });
+    } else {
+      sendJson(res, 405, { error: `${req.method} not supported on ${url.pathname}` });
+    }
+    return;
+  }
+
+  let command: Omit<ControlCommand, 'id' | 'status' | 'queuedAt'>;
+  if (area === 'control' && (id === 'pause' || id === 'resume') && !action) {
+    command = { action: id, by: 'api' };
+  } else if (area === 'tasks' && id && (action === 'skip' || action === 'retry' || action === 'unblock')) {
+    command = { action, taskId: id, by: 'api' };
+  } else if (area === 'goals' && id && action === 'tasks') {
+    command = { action: 'inject', goalId: id, by: 'api' };
+  } else {
+    sendJson(res, 404, {
+      error: 'Use POST /control/pause|resume, /tasks/:id/skip|retry|unblock or /goals/:id/tasks',
+    });
+    return;
+  }
+
+  if (!requireControl(req, res)) {
+    return;
+  }
+
+  const body = await readJsonBody(req);
+  if (typeof body.reason === 'string' && body.reason.trim()) {
+    command.reason = body.reason.trim();
+  }
+
+  // Refuse targets that don't exist now; the loop re-checks when applying
+  if (command.taskId || command.goalId) {
+    const scheduler = await readScheduler();
+
+    if (command.taskId && !scheduler.findTask(command.taskId)) {
+      sendJson(res, 404, { error: `No task ${command.taskId}` });
+      return;
+    }
+    if (command.goalId && !scheduler.getGoals().some(g => g.id === command.goalId)) {
+      sendJson(res, 404, { error: `No goal ${command.goalId}` });
+      return;
+    }
+  }
+
+  if (command.action === 'inject') {
+    const task = parseInjectedTask(body);
+    if (typeof task === 'string') {
+      sendJson(res, 400, { error: task });
+      return;
+    }
+    command.task = task;
+  }
+
+  const queued = queue.enqueue(command);
+  onControl?.();
+  sendJson(res, 202, queued);
+}
+
+/**
+ * /approvals, /approvals/:id and POST /approvals/:id/(approve|reject)
+ */
+async function handleApprovals(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+  const store = new ApprovalStore();
+  const [, , id, action] = url.pathname.split('/');
+
+  if (req.method === 'POST') {
+    if (!id || (action !== 'approve' && action !== 'reject')) {
+      sendJson(res, 404, { error: 'Use POST /approvals/:id/approve or /approvals/:id/reject' });
+      return;
+    }
+    if (!requireControl(req, res)) {
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    try {
+      const approval = store.decide(id, action === 'approve' ? 'approved' : 'rejected', {
+        by: 'api',
+        note: typeof body.note === 'string' ? body.note : undefined,
+      });
+      sendJson(res, 200, approval);
+    } catch (err: any) {
+      sendJson(res, store.get(id) ? 409 : 404, { error: err.message });
+    }
+    return;
+  }
+
+  if (id) {
+    const approval = store.get(id);
+    sendJson(res, approval ? 200 : 404, approval || { error: `No approval request ${id}` });
+    return;
+  }
+
+  const all = url.searchParams.get('all') === '1';
+  sendJson(res, 200, {
+    approvals: (all ? store.list() : store.list('pending')).map(({ diff, ...summary }) => summary),
+    timestamp: new Date().toISOString(),
+  });
+}
+
 function handleHealth(res: ServerResponse): void {
   const running = isAgentRunning();
   const state = getAgentState();
-  const consecutiveFailures = (state?.consecutiveFailures as number) || 0;
+  const health = (state?.health as { consecutiveFailures?: number }) || {};
+  const consecutiveFailures = health.consecutiveFailures || 0;
 
   const healthy = running && consecutiveFailures < 5;
 
@@ -163,20 +640,8 @@ function handleUserModel(res: ServerResponse): void {
 }
 
 function handleConfig(res: ServerResponse): void {
-  const config = getConfig();
-
-  // Redact sensitive info
-  const safeConfig = {
-    ...config,
-    features: config.features,
-    urgencyThresholds: config.urgencyThresholds,
-    cycleDelays: config.cycleDelays,
-    claudeModel: config.claudeModel,
-    maxTurns: config.maxTurns,
-  };
-
   res.writeHead(200, { 'Content-Type': 'application/json' });
-  res.end(JSON.stringify(safeConfig, null, 2));
+  res.end(JSON.stringify(redactSecrets(getConfig()), null, 2));
 }
 
 function handleLogs(res: ServerResponse, lines: number = 50): void {
@@ -190,30 +655,48 @@ function handleLogs(res: ServerResponse, lines: number = 50): void {
   }));
 }
 
+/** Listed on a 404; keep in step with the routes in requestHandler */
+const ENDPOINTS = [
+  'GET /status - Current agent status',
+  'GET /metrics - Telemetry and cost data',
+  'GET /metrics/prometheus - Metrics in the Prometheus text format',
+  'GET /ui - Web dashboard',
+  'GET /dag?goal=id - A goal\'s tasks and DAG analysis',
+  'GET /health - Simple health check',
+  'GET /user-model - User preferences',
+  'GET /budget - Budget burn-down',
+  'GET /config - Agent configuration (secrets masked)',
+  'GET /logs?lines=50 - Recent log lines',
+  'GET /events?types=a,b - Live Server-Sent Events',
+  'GET /approvals - Pending approval requests',
+  'POST /approvals/:id/approve|reject - Decide a request (control token)',
+  'GET /control - Pause state and recent control commands',
+  'POST /control/pause|resume - Pause or resume the loop (control token)',
+  'POST /tasks/:id/skip|retry|unblock - Change a task (control token)',
+  'POST /goals/:id/tasks - Add a task (control token)',
+];
+
 function handleNotFound(res: ServerResponse): void {
   res.writeHead(404, { 'Content-Type': 'application/json' });
-  res.end(JSON.stringify({
-    error: 'Not found',
-    endpoints: [
-      'GET /status - Current agent status',
-      'GET /metrics - Telemetry and cost data',
-      'GET /health - Simple health check',
-      'GET /user-model - User preferences',
-      'GET /config - Agent configuration',
-      'GET /logs?lines=50 - Recent log lines',
-    ],
-  }));
+  res.end(JSON.stringify({ error: 'Not found', endpoints: ENDPOINTS }));
 }
 
 // ============================================================
 // Server
 // ============================================================
 
-function requestHandler(req: IncomingMessage, res: ServerResponse): void {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+/**
+ * Route one request (exported for tests; startStatusServer serves it)
+ */
+export function requestHandler(req: IncomingMessage, res: ServerResponse): void {
+  // CORS headers, only for configured origins
+  const origin = req.headers.origin;
+  if (origin && (STATUS_API_CORS_ORIGINS.includes('*') || STATUS_API_CORS_ORIGINS.includes(origin))) {
+    res.setHeader('Access-Control-Allow-Origin', STATUS_API_CORS_ORIGINS.includes('*') ? '*' : origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, Last-Event-ID');
+  }
 
   if (req.method === 'OPTIONS') {
     res.writeHead(204);
@@ -221,27 +704,88 @@ function requestHandler(req: IncomingMessage, res: ServerResponse): void {
     return;
   }
 
-  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  // The Host header is client-supplied, so it plays no part in parsing
+  let url: URL;
+  try {
+    url = new URL(req.url || '/', 'http://localhost');
+  } catch {
+    sendJson(res, 400, { error: 'Malformed request URL' });
+    return;
+  }
   const path = url.pathname;
 
+  // Health stays open for probes and /ui has no data of its own; POST
+  // handlers check for the control scope
+  if (path !== '/health' && path !== '/ui' && !getScope(req)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    sendJson(res, 401, { error: 'Missing or invalid token' });
+    return;
+  }
+
+  if (path === '/approvals' || path.startsWith('/approvals/')) {
+    handleApprovals(req, res, url).catch(err => sendRequestError(req, res, path, err));
+    return;
+  }
+
+  if (path === '/control' || path.startsWith('/control/') || path.startsWith('/tasks/') || path.startsWith('/goals/')) {
+    handleControl(req, res, url).catch(err => sendRequestError(req, res, path, err));
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    sendJson(res, 405, { error: `${req.method} not supported on ${path}` });
+    return;
+  }
+
   try {
     switch (path) {
       case '/':
       case '/status':
-        handleStatus(res);
+        handleStatus(res).catch(err => {
+          console.error(`[StatusAPI] Error handling ${path}:`, err);
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Internal server error' }));
+        });
         break;
       case '/metrics':
         handleMetrics(res);
         break;
+      case '/metrics/prometheus':
+        handlePrometheus(res).catch(err => {
+          console.error(`[StatusAPI] Error handling ${path}:`, err);
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Internal server error' }));
+        });
+        break;
       case '/health':
         handleHealth(res);
         break;
+      case '/ui':
+        handleDashboard(res);
+        break;
+      case '/dag':
+        handleDag(res, url).catch(err => {
+          console.error(`[StatusAPI] Error handling ${path}:`, err);
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Internal server error' }));
+        });
+        break;
       case '/user-model':
         handleUserModel(res);
         break;
       case '/config':
         handleConfig(res);
         break;
+      case '/budget':
+        handleBudget(res).catch(err => {
+          console.error(`[StatusAPI] Error handling ${path}:`, err);
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: 'Internal server error' }));
+        });
+        break;
+      case '/events':
+        handleEvents(req, res, url);
+        break;
       case '/logs':
         const lines = parseInt(url.searchParams.get('lines') || '50', 10);
         handleLogs(res, lines);
@@ -259,25 +803,44 @@ function requestHandler(req: IncomingMessage, res: ServerResponse): void {
 /**
  * Start the status API server
  */
-export function startStatusServer(port: number = DEFAULT_PORT): void {
-  const server = createServer(requestHandler);
-
-  server.listen(port, '127.0.0.1', () => {
-    console.log(`[StatusAPI] Server running at http://127.0.0.1:${port}`);
-    console.log(`[StatusAPI] Endpoints: /status, /metrics, /health, /user-model, /config, /logs`);
+export function startStatusServer(port: number = STATUS_API_PORT, options: StatusServerOptions = {}): void {
+  onControl = options.onControl;
+  getHealth = options.health;
+  getToken(CONTROL_TOKEN_FILE);
+  getToken(READ_TOKEN_FILE);
+
+  if (!STATUS_API_TLS_CERT !== !STATUS_API_TLS_KEY) {
+    console.error('[StatusAPI] Set both STATUS_API_TLS_CERT and STATUS_API_TLS_KEY, or neither - not starting');
+    return;
+  }
+  const tls = !!STATUS_API_TLS_CERT;
+  const server = tls
+    ? createTlsServer({ cert: readFileSync(STATUS_API_TLS_CERT), key: readFileSync(STATUS_API_TLS_KEY) }, requestHandler)
+    : createServer(requestHandler);
+
+  server.listen(port, STATUS_API_HOST, () => {
+    console.log(`[StatusAPI] Server running at ${tls ? 'https' : 'http'}://${STATUS_API_HOST}:${port}`);
+    console.log(`[StatusAPI] Endpoints: /ui, /status, /dag, /metrics, /metrics/prometheus, /health, /user-model, /config, /logs, /budget, /approvals, /control, /events`);
+    if (!tls && !isLoopback(STATUS_API_HOST)) {
+      console.log(`[StatusAPI] Warning: listening on ${STATUS_API_HOST} without TLS - tokens are sent in the clear`);
+    }
   });
 
   server.on('error', (err: NodeJS.ErrnoException) => {
     if (err.code === 'EADDRINUSE') {
       console.log(`[StatusAPI] Port ${port} in use, trying ${port + 1}`);
-      startStatusServer(port + 1);
+      startStatusServer(port + 1, options);
     } else {
       console.error(`[StatusAPI] Server error:`, err);
     }
   });
 }
 
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
 /**
  * Export port for CLI
  */
-export const STATUS_API_PORT = DEFAULT_PORT;
+export { STATUS_API_PORT };
@@ -11,14 +11,12 @@
  */
 
 import { getHutchMem } from '../memory/bridge.js';
+import { HUTCHMEM_API_URL as HUTCHMEM_API, HUTCHMEM_PROJECT as PROJECT } from '../core/config.js';
 
 // ============================================================
 // Configuration
 // ============================================================
 
-const HUTCHMEM_API = process.env.HUTCHMEM_API_URL || 'http://localhost:37777';
-const PROJECT = process.env.HUTCHMEM_PROJECT || 'personal';
-
 // Auth token loader (cached)
 import { existsSync, readFileSync } from 'fs';
 
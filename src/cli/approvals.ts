@@ -0,0 +1,84 @@
+/**
+ * Review human approval requests
+ *
+ *   approvals [--all]       List pending (or all) requests
+ *   approvals <id>          Show a request's plan and diff
+ *   approve <id> [note]     Let the task run
+ *   reject <id> [reason]    Keep the task blocked
+ */
+
+import { ApprovalStore, ApprovalRequest } from '../core/approvals.js';
+
+export async function approvals(args: string[]) {
+  const store = new ApprovalStore();
+  const id = args.find(a => !a.startsWith('-'));
+
+  if (id) {
+    const approval = store.get(id);
+    if (!approval) {
+      throw new Error(`No approval request ${id}`);
+    }
+    printDetails(approval);
+    return;
+  }
+
+  const list = args.includes('--all') ? store.list() : store.list('pending');
+  if (list.length === 0) {
+    console.log('No pending approvals');
+    return;
+  }
+
+  for (const approval of list) {
+    const decided = approval.status === 'pending' ? '' : ` [${approval.status}]`;
+    console.log(`${approval.id}  ${approval.goalName} / ${approval.taskName}${decided}`);
+    console.log(`           ${approval.reason} | ${approval.createdAt}`);
+  }
+  console.log('');
+  console.log('Show details with: nexus approvals <id>');
+}
+
+export async function approve(args: string[]) {
+  decide(args, 'approved');
+}
+
+export async function reject(args: string[]) {
+  decide(args, 'rejected');
+}
+
+function decide(args: string[], decision: 'approved' | 'rejected') {
+  const [id, ...noteParts] = args;
+  if (!id) {
+    throw new Error(`Usage: nexus ${decision === 'approved' ? 'approve' : 'reject'} <id> [note]`);
+  }
+
+  const approval = new ApprovalStore().decide(id, decision, {
+    by: 'cli',
+    note: noteParts.join(' ') || undefined,
+  });
+
+  console.log(`${approval.id} ${decision}: ${approval.taskName}`);
+  console.log(decision === 'approved'
+    ? 'The agent will run the task on its next cycle.'
+    : 'The task stays blocked.');
+}
+
+function printDetails(approval: ApprovalRequest) {
+  console.log(`Approval: ${approval.id} (${approval.status})`);
+  console.log(`Goal:     ${approval.goalName}`);
+  console.log(`Task:     ${approval.taskName} (${approval.taskId})`);
+  console.log(`Reason:   ${approval.reason}`);
+  console.log(`Created:  ${approval.createdAt}`);
+  if (approval.decidedAt) {
+    console.log(`Decided:  ${approval.decidedAt} via ${approval.decidedBy}${approval.note ? ` - ${approval.note}` : ''}`);
+  }
+  console.log('');
+
+  const { plan } = approval;
+  console.log(`Plan: ${plan.approach}`);
+  console.log(`      ${plan.complexity} complexity, ${plan.riskLevel} risk${plan.model ? `, model ${plan.model}` : ''}`);
+  plan.steps.forEach((step, i) => console.log(`  ${i + 1}. ${step}`));
+  console.log('');
+
+  console.log(`Uncommitted changes in ${approval.cwd}:`);
+  console.log(approval.diff || '  (none)');
+}
@@ -0,0 +1,74 @@
+/**
+ * Check goal files against the goal schema
+ *
+ *   goals validate [path]   Validate a goal file, or every file in a
+ *                           directory (default: the goals directory)
+ *   goals changes [goal]    Show the plan change log
+ */
+
+import { existsSync, statSync } from 'fs';
+import { resolveGoalsDir } from '../scheduler/dag-scheduler.js';
+import { formatValidation, validateGoalFile, validateGoalsDir } from '../scheduler/goal-schema.js';
+import { GoalEditor } from '../scheduler/goal-editor.js';
+
+export async function goals(args: string[]) {
+  const [subcommand, ...rest] = args;
+
+  switch (subcommand) {
+    case 'validate':
+      validate(rest[0]);
+      break;
+
+    case 'changes':
+      changes(rest[0]);
+      break;
+
+    default:
+      throw new Error('Usage: nexus goals validate [file|dir] | goals changes [goal]');
+  }
+}
+
+function validate(target?: string) {
+  const path = target || resolveGoalsDir();
+  if (!existsSync(path)) {
+    throw new Error(`No such goal file or directory: ${path}`);
+  }
+
+  const results = statSync(path).isDirectory() ? validateGoalsDir(path) : [validateGoalFile(path)];
+  if (results.length === 0) {
+    console.log(`No goal files in ${path}`);
+    return;
+  }
+
+  for (const result of results) {
+    console.log(formatValidation(result));
+  }
+
+  const invalid = results.filter(r => !r.valid).length;
+  const warnings = results.reduce((sum, r) => sum + r.warnings.length, 0);
+  console.log('');
+  console.log(`${results.length - invalid}/${results.length} valid${warnings > 0 ? `, ${warnings} warning(s)` : ''}`);
+
+  if (invalid > 0) {
+    process.exit(1);
+  }
+}
+
+function changes(goalId?: string) {
+  const records = new GoalEditor().history(goalId);
+  if (records.length === 0) {
+    console.log('No plan changes');
+    return;
+  }
+
+  for (const record of records.slice(-50)) {
+    const { change } = record;
+    const target = change.action === 'replace' ? change.taskId : change.objectiveId;
+    const outcome = record.applied ? '' : ' [rejected]';
+    console.log(`${record.id}  ${record.goalId}: ${change.action} ${target}${outcome}  (${record.by}, ${record.at})`);
+    console.log(`             ${change.reason}`);
+    if (record.added?.length) console.log(`             + ${record.added.join(', ')}`);
+    if (record.removed?.length) console.log(`             - ${record.removed.join(', ')}`);
+    if (record.error) console.log(`             ${record.error}`);
+  }
+}
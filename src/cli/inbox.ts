@@ -0,0 +1,42 @@
+/**
+ * Answer questions the agent asked via request_help
+ *
+ *   inbox [--all]           List open (or all) questions
+ *   reply <id> <answer>     Answer a question; the task runs again with it
+ */
+
+import { HelpInbox } from '../core/inbox.js';
+
+export async function inbox(args: string[]) {
+  const list = args.includes('--all') ? new HelpInbox().list() : new HelpInbox().list('open');
+  if (list.length === 0) {
+    console.log('No open questions');
+    return;
+  }
+
+  for (const request of list) {
+    const answered = request.status === 'open' ? '' : ' [answered]';
+    console.log(`${request.id}  ${request.goalName} / ${request.taskName}${answered}`);
+    console.log(`          Q: ${request.question}`);
+    if (request.context) {
+      console.log(`          Context: ${request.context}`);
+    }
+    if (request.answer) {
+      console.log(`          A: ${request.answer}`);
+    }
+    console.log(`          Asked ${request.askedAt}`);
+  }
+  console.log('');
+  console.log('Answer with: nexus reply <id> "<answer>"');
+}
+
+export async function reply(args: string[]) {
+  const [id, ...answerParts] = args;
+  if (!id || answerParts.length === 0) {
+    throw new Error('Usage: nexus reply <id> "<answer>"');
+  }
+
+  const request = new HelpInbox().reply(id, answerParts.join(' '), 'cli');
+  console.log(`${request.id} answered: ${request.taskName}`);
+  console.log('The task will be unblocked on the next cycle');
+}
@@ -5,18 +5,25 @@
  * 24/7 Autonomous AI Agent powered by HutchMem
  *
  * Usage:
- *   hutch agent start   - Start the agent daemon
- *   hutch agent stop    - Stop the agent
- *   hutch agent status  - Check agent status
- *   hutch agent logs    - View agent logs
+ *   nexus start   - Start the agent daemon
+ *   nexus stop    - Stop the agent
+ *   nexus status  - Check agent status
+ *   nexus logs    - View agent logs
+ *   nexus approve - Approve a gated task (nexus reject to refuse it)
+ *   nexus reply   - Answer a question from the agent
+ *   nexus goals   - Validate goal files, show plan changes
  */
 
 import { start } from './start.js';
 import { stop } from './stop.js';
 import { status } from './status.js';
 import { logs } from './logs.js';
+import { approvals, approve, reject } from './approvals.js';
+import { inbox, reply } from './inbox.js';
+import { goals } from './goals.js';
 
 const command = process.argv[2];
+const args = process.argv.slice(3);
 
 async function main() {
   switch (command) {
@@ -36,6 +43,30 @@ async function main() {
       await logs();
       break;
 
+    case 'approvals':
+      await approvals(args);
+      break;
+
+    case 'approve':
+      await approve(args);
+      break;
+
+    case 'reject':
+      await reject(args);
+      break;
+
+    case 'inbox':
+      await inbox(args);
+      break;
+
+    case 'reply':
+      await reply(args);
+      break;
+
+    case 'goals':
+      await goals(args);
+      break;
+
     case 'help':
     case '--help':
     case '-h':
@@ -55,20 +86,36 @@ function printHelp() {
   console.log(`
 Hutch Agent - 24/7 Autonomous AI Agent
 
-Usage: hutch agent <command>
+Usage: nexus <command>
 
 Commands:
   start   Start the agent daemon
   stop    Stop the agent gracefully
   status  Show agent status and progress
-  logs    Stream agent activity logs
+  logs    Stream agent activity logs (--events for structured events)
   help    Show this help message
 
+  approvals [id]        List pending approvals, or show one's plan and diff
+  approve <id> [note]   Let a gated task run
+  reject <id> [reason]  Keep a gated task blocked
+
+  inbox [--all]         List questions the agent is waiting on
+  reply <id> <answer>   Answer a question and unblock its task
+
+  goals validate [path] Check goal files against the schema
+  goals changes [goal]  Show how the agent changed its plan
+
 Examples:
-  hutch agent start          # Start the agent
-  hutch agent status         # Check what agent is doing
-  hutch agent logs           # Watch agent activity
-  hutch agent stop           # Stop the agent
+  nexus start          # Start the agent
+  nexus status         # Check what agent is doing
+  nexus logs           # Watch agent activity
+  nexus logs --events --types=tool_use,tool_result
+  nexus stop           # Stop the agent
+  nexus approve apr-1a2b3c
+  nexus reject apr-1a2b3c "not yet"
+  nexus inbox          # See what the agent is asking
+  nexus reply q-4d5e6f "Use the staging database"
+  nexus goals validate goals/hackathon.json
 `);
 }
 
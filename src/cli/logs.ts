@@ -3,19 +3,20 @@
  */
 
 import { existsSync, readFileSync, watchFile, statSync } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
 import { spawn } from 'child_process';
-
-const AGENT_DIR = join(homedir(), '.hutch-agent');
-const LOG_FILE = join(AGENT_DIR, 'agent.log');
+import { LOG_FILE, STATUS_API_PORT, STATUS_API_HOST, STATUS_API_TLS_CERT, READ_TOKEN_FILE } from '../core/config.js';
+import { AgentEvent, formatEvent } from '../core/events.js';
 
 export async function logs() {
+  if (process.argv.includes('--events')) {
+    return events();
+  }
+
   // Check if log file exists
   if (!existsSync(LOG_FILE)) {
     console.log('No logs found. Is the agent running?');
     console.log('');
-    console.log('Start the agent with: hutch agent start');
+    console.log('Start the agent with: nexus start');
     return;
   }
 
@@ -55,3 +56,68 @@ export async function logs() {
     console.log(lastLines.join('\n'));
   }
 }
+
+/**
+ * Follow structured events from the running agent's /events stream
+ */
+async function events() {
+  const follow = !process.argv.includes('--no-follow');
+  const types = process.argv.find(a => a.startsWith('--types='))?.slice('--types='.length);
+  let lastEventId: string | undefined;
+
+  // Same machine: reach a wildcard bind over loopback and read the token file
+  const host = STATUS_API_HOST === '0.0.0.0' || STATUS_API_HOST === '::' ? '127.0.0.1' : STATUS_API_HOST;
+  const token = existsSync(READ_TOKEN_FILE) ? readFileSync(READ_TOKEN_FILE, 'utf-8').trim() : '';
+
+  process.on('SIGINT', () => {
+    console.log('');
+    process.exit(0);
+  });
+
+  while (true) {
+    const url = new URL(`${STATUS_API_TLS_CERT ? 'https' : 'http'}://${host}:${STATUS_API_PORT}/events`);
+    if (types) url.searchParams.set('types', types);
+    if (!follow) url.searchParams.set('follow', '0');
+
+    try {
+      const headers: Record<string, string> = { Authorization: `Bearer ${token}` };
+      if (lastEventId) headers['Last-Event-ID'] = lastEventId;
+
+      const res = await fetch(url, { headers });
+      if (!res.ok || !res.body) {
+        throw new Error(`HTTP ${res.status}`);
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        let end: number;
+        while ((end = buffer.indexOf('\n\n')) !== -1) {
+          const frame = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+
+          const data = frame.split('\n').find(l => l.startsWith('data: '));
+          if (!data) continue; // keep-alive comment
+          const event = JSON.parse(data.slice('data: '.length)) as AgentEvent;
+          lastEventId = event.id;
+          console.log(formatEvent(event));
+        }
+      }
+    } catch (err) {
+      if (!lastEventId) {
+        console.log(`Cannot reach the agent on port ${STATUS_API_PORT} (${(err as Error).message}). Is it running?`);
+        return;
+      }
+    }
+
+    if (!follow) return;
+    // The agent restarted or the connection dropped - pick up where we left off
+    await new Promise(resolve => setTimeout(resolve, 2000));
+  }
+}
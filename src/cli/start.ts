@@ -5,15 +5,21 @@
 import { existsSync, writeFileSync, readFileSync } from 'fs';
 import { spawn } from 'child_process';
 import { join, dirname } from 'path';
-import { homedir } from 'os';
 import { fileURLToPath } from 'url';
+import {
+  AGENT_DIR,
+  PID_FILE,
+  LOG_FILE,
+  STATUS_API_ENABLED,
+  STATUS_API_HOST,
+  STATUS_API_PORT,
+  STATUS_API_TLS_CERT,
+} from '../core/config.js';
+import { resolveGoalsDir } from '../scheduler/dag-scheduler.js';
+import { GoalValidationError, validateGoalsDir } from '../scheduler/goal-schema.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
-const AGENT_DIR = join(homedir(), '.hutch-agent');
-const PID_FILE = join(AGENT_DIR, 'agent.pid');
-const LOG_FILE = join(AGENT_DIR, 'agent.log');
-
 export async function start() {
   // Check if already running
   if (existsSync(PID_FILE)) {
@@ -21,7 +27,7 @@ export async function start() {
     try {
       process.kill(pid, 0); // Check if process exists
       console.log(`Hutch Agent already running (PID: ${pid})`);
-      console.log('Use "hutch agent status" to check progress');
+      console.log('Use "nexus status" to check progress');
       return;
     } catch {
       // PID file exists but process is dead, clean up
@@ -32,6 +38,12 @@ export async function start() {
   const { mkdirSync } = await import('fs');
   mkdirSync(AGENT_DIR, { recursive: true });
 
+  // The daemon's output goes nowhere, so catch bad goal files up front
+  const goalChecks = validateGoalsDir(resolveGoalsDir());
+  if (goalChecks.some(check => !check.valid)) {
+    throw new GoalValidationError(goalChecks);
+  }
+
   console.log('Starting Hutch Agent...');
 
   // Check for foreground flag
@@ -66,9 +78,12 @@ export async function start() {
 
     console.log(`Hutch Agent started (PID: ${child.pid})`);
     console.log(`Logs: ${LOG_FILE}`);
+    if (STATUS_API_ENABLED) {
+      console.log(`Dashboard: ${STATUS_API_TLS_CERT ? 'https' : 'http'}://${STATUS_API_HOST}:${STATUS_API_PORT}/ui`);
+    }
     console.log('');
-    console.log('Use "hutch agent status" to check progress');
-    console.log('Use "hutch agent logs" to watch activity');
-    console.log('Use "hutch agent stop" to stop the agent');
+    console.log('Use "nexus status" to check progress');
+    console.log('Use "nexus logs" to watch activity');
+    console.log('Use "nexus stop" to stop the agent');
   }
 }
@@ -3,15 +3,17 @@
  */
 
 import { existsSync, readFileSync, statSync } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
-
-const AGENT_DIR = join(homedir(), '.hutch-agent');
-const PID_FILE = join(AGENT_DIR, 'agent.pid');
-const STATE_FILE = join(AGENT_DIR, 'state.json');
-const LOG_FILE = join(AGENT_DIR, 'agent.log');
+import { CIRCUIT_STATE_FILE, PID_FILE, STATE_FILE, LOG_FILE, getConfig } from '../core/config.js';
+import type { CircuitBreakerSnapshot } from '../core/circuit-breaker.js';
+import { BudgetManager, formatBudgetLine } from '../core/budget.js';
+import { ApprovalStore } from '../core/approvals.js';
+import { HelpInbox } from '../core/inbox.js';
+import { DAGScheduler } from '../scheduler/dag-scheduler.js';
 
 interface AgentState {
+  agentId?: string;
+  state?: string;
+  paused?: { since: string; by: string; reason?: string };
   currentGoal?: string;
   currentTask?: string;
   cycleCount: number;
@@ -49,7 +51,7 @@ export async function status() {
   } else {
     console.log('Status:  STOPPED');
     console.log('');
-    console.log('Start the agent with: hutch agent start');
+    console.log('Start the agent with: nexus start');
     return;
   }
 
@@ -58,6 +60,15 @@ export async function status() {
     try {
       const state: AgentState = JSON.parse(readFileSync(STATE_FILE, 'utf-8'));
 
+      if (state.agentId) {
+        console.log(`Agent:   ${state.agentId}`);
+      }
+      if (state.state) {
+        console.log(`State:   ${state.state}`);
+      }
+      if (state.paused) {
+        console.log(`Paused:  since ${state.paused.since} by ${state.paused.by}${state.paused.reason ? ` (${state.paused.reason})` : ''}`);
+      }
       console.log(`Started: ${state.startedAt}`);
       console.log(`Cycles:  ${state.cycleCount}`);
 
@@ -107,6 +118,105 @@ export async function status() {
     console.log('(No state file found - agent may be initializing)');
   }
 
+  printCircuitBreaker();
+  await printBudget();
+  await printScheduling();
+  printApprovals();
+  printQuestions();
+
+  console.log('');
+  console.log('Use "nexus logs" to watch activity');
+}
+
+/**
+ * Show the scheduling policy and how cycle time was split between goals
+ */
+async function printScheduling() {
+  const scheduler = new DAGScheduler();
+  await scheduler.loadState();
+
+  const shares = scheduler.getTimeShares().filter(s => s.status === 'active' || s.timeSpentMs > 0);
+  if (shares.length < 2) return;
+
   console.log('');
-  console.log('Use "hutch agent logs" to watch activity');
+  console.log(`Scheduling (${getConfig().scheduling.policy}):`);
+  for (const share of shares) {
+    const minutes = Math.round(share.timeSpentMs / 60000);
+    console.log(`  ${share.goalName}: ${share.share}% (${minutes}m, weight ${share.weight}, ${share.status})`);
+  }
+}
+
+/**
+ * Show tasks waiting for a human decision
+ */
+function printApprovals() {
+  const pending = new ApprovalStore().list('pending');
+  if (pending.length === 0) return;
+
+  console.log('');
+  console.log('Awaiting Approval:');
+  for (const approval of pending) {
+    console.log(`  ${approval.id}  ${approval.taskName} (${approval.reason})`);
+  }
+  console.log('Review with "nexus approvals <id>", then approve or reject');
+}
+
+/**
+ * Show questions the agent is waiting on
+ */
+function printQuestions() {
+  const open = new HelpInbox().list('open');
+  if (open.length === 0) return;
+
+  console.log('');
+  console.log('Questions for You:');
+  for (const request of open) {
+    console.log(`  ${request.id}  ${request.taskName}: ${request.question}`);
+  }
+  console.log('Answer with "nexus reply <id> <answer>"');
+}
+
+/**
+ * Show circuit breaker state and recent trips
+ */
+function printCircuitBreaker() {
+  if (!existsSync(CIRCUIT_STATE_FILE)) return;
+
+  try {
+    const snapshot: CircuitBreakerSnapshot = JSON.parse(readFileSync(CIRCUIT_STATE_FILE, 'utf-8'));
+
+    console.log('');
+    console.log(`Circuit Breaker: ${snapshot.state.toUpperCase()}`);
+
+    const trips = snapshot.tripEvents.slice(-5);
+    if (trips.length > 0) {
+      console.log('Recent Trips:');
+      for (const trip of trips) {
+        const icon = trip.level === 'hard' ? '✗' : '!';
+        const task = trip.taskId ? ` [${trip.taskId}]` : '';
+        console.log(`  ${icon} ${trip.timestamp} ${trip.reason}${task}: ${trip.message}`);
+      }
+    }
+  } catch {
+    console.log('(Unable to read circuit breaker state)');
+  }
+}
+
+/**
+ * Show budget burn-down
+ */
+async function printBudget() {
+  const scheduler = new DAGScheduler();
+  await scheduler.loadState();
+
+  const lines = new BudgetManager().getLines(scheduler.getGoals());
+  if (lines.length === 0) return;
+
+  console.log('');
+  console.log('Budgets:');
+  for (const line of lines) {
+    const percent = Math.min(line.percent, 100);
+    const bar = '='.repeat(Math.floor(percent / 5)) + '-'.repeat(20 - Math.floor(percent / 5));
+    console.log(`  [${bar}] ${formatBudgetLine(line)}`);
+  }
 }
@@ -3,11 +3,7 @@
  */
 
 import { existsSync, readFileSync, unlinkSync } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
-
-const AGENT_DIR = join(homedir(), '.hutch-agent');
-const PID_FILE = join(AGENT_DIR, 'agent.pid');
+import { PID_FILE } from '../core/config.js';
 
 export async function stop() {
   if (!existsSync(PID_FILE)) {
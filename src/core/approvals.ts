@@ -0,0 +1,182 @@
+/**
+ * Human Approval Gate
+ *
+ * Goals and tasks can declare `requiresApproval`:
+ * - true         every attempt at the task waits for a human
+ * - "high-risk"  only attempts the planner rates high risk wait
+ * - false        never gated (a task-level false overrides the goal)
+ *
+ * A gated task is parked as blocked with a pending approval holding the
+ * plan and the working directory's uncommitted diff. `nexus approve` /
+ * `nexus reject` (or the status API) decide it; the loop then unblocks
+ * the task or keeps it held. One approval covers one attempt.
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+import { APPROVALS_FILE } from './config.js';
+import type { Plan } from './planner.js';
+import type { DAGGoal, DAGTask, ApprovalPolicy } from '../scheduler/dag-scheduler.js';
+
+/** Diffs are trimmed to this many characters */
+const MAX_DIFF_CHARS = 20000;
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ApprovalRequest {
+  id: string;
+  goalId: string;
+  goalName: string;
+  taskId: string;
+  taskName: string;
+  /** Why the task was gated */
+  reason: string;
+  status: ApprovalStatus;
+  plan: {
+    approach: string;
+    steps: string[];
+    complexity: Plan['estimatedComplexity'];
+    riskLevel: Plan['riskLevel'];
+    model?: string;
+  };
+  /** Directory the session would run in */
+  cwd: string;
+  /** Uncommitted changes in cwd when the approval was requested */
+  diff: string;
+  createdAt: string;
+  decidedAt?: string;
+  /** Where the decision came from (cli, api) */
+  decidedBy?: string;
+  note?: string;
+  /** When the approved attempt started */
+  usedAt?: string;
+}
+
+/**
+ * Why this attempt needs approval, or null if it doesn't
+ */
+export function approvalReason(goal: DAGGoal, task: DAGTask, plan: Plan): string | null {
+  const taskPolicy = task.requiresApproval;
+  const policy = taskPolicy ?? goal.requiresApproval ?? false;
+  const scope = taskPolicy !== undefined ? 'task' : 'goal';
+
+  if (policy === true) {
+    return `${scope} requires approval`;
+  }
+  if (policy === 'high-risk' && plan.riskLevel === 'high') {
+    return `high-risk plan (${scope} policy)`;
+  }
+  return null;
+}
+
+/**
+ * Block reason that marks a task as waiting on an approval
+ */
+export function awaitingApprovalReason(id: string): string {
+  return `Awaiting approval ${id}`;
+}
+
+/**
+ * File-backed approval queue shared by the loop, CLI and status API.
+ * Every call re-reads the file so decisions made elsewhere are seen.
+ */
+export class ApprovalStore {
+  private file: string;
+
+  constructor(file: string = APPROVALS_FILE) {
+    this.file = file;
+  }
+
+  list(status?: ApprovalStatus): ApprovalRequest[] {
+    const all = this.load();
+    return status ? all.filter(a => a.status === status) : all;
+  }
+
+  get(id: string): ApprovalRequest | undefined {
+    return this.load().find(a => a.id === id);
+  }
+
+  /**
+   * Pending approval for a task, if one is already open
+   */
+  getPending(taskId: string): ApprovalRequest | undefined {
+    return this.load().find(a => a.taskId === taskId && a.status === 'pending');
+  }
+
+  /**
+   * Open a pending approval
+   */
+  create(request: Omit<ApprovalRequest, 'id' | 'status' | 'createdAt'>): ApprovalRequest {
+    const approvals = this.load();
+    const approval: ApprovalRequest = {
+      ...request,
+      diff: request.diff.length > MAX_DIFF_CHARS
+        ? `${request.diff.slice(0, MAX_DIFF_CHARS)}\n... (diff truncated)`
+        : request.diff,
+      id: `apr-${randomBytes(3).toString('hex')}`,
+      status: 'pending',
+      createdAt: new Date().toISOString(),
+    };
+
+    approvals.push(approval);
+    this.save(approvals);
+    return approval;
+  }
+
+  /**
+   * Approve or reject a pending request
+   */
+  decide(
+    id: string,
+    decision: 'approved' | 'rejected',
+    options: { by: string; note?: string }
+  ): ApprovalRequest {
+    const approvals = this.load();
+    const approval = approvals.find(a => a.id === id);
+
+    if (!approval) {
+      throw new Error(`No approval request ${id}`);
+    }
+    if (approval.status !== 'pending') {
+      throw new Error(`Approval ${id} was already ${approval.status}`);
+    }
+
+    approval.status = decision;
+    approval.decidedAt = new Date().toISOString();
+    approval.decidedBy = options.by;
+    approval.note = options.note;
+
+    this.save(approvals);
+    return approval;
+  }
+
+  /**
+   * Use up an unused approval for a task (undefined if there is none)
+   */
+  consume(taskId: string): ApprovalRequest | undefined {
+    const approvals = this.load();
+    const approval = approvals.find(a => a.taskId === taskId && a.status === 'approved' && !a.usedAt);
+    if (!approval) return undefined;
+
+    approval.usedAt = new Date().toISOString();
+    this.save(approvals);
+    return approval;
+  }
+
+  private load(): ApprovalRequest[] {
+    try {
+      if (existsSync(this.file)) {
+        return JSON.parse(readFileSync(this.file, 'utf-8')) as ApprovalRequest[];
+      }
+    } catch (err) {
+      console.log(`[Approvals] Failed to load: ${(err as Error).message}`);
+    }
+    return [];
+  }
+
+  private save(approvals: ApprovalRequest[]): void {
+    mkdirSync(dirname(this.file), { recursive: true });
+    writeFileSync(this.file, JSON.stringify(approvals, null, 2));
+  }
+}
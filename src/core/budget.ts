@@ -0,0 +1,139 @@
+/**
+ * Budget Manager
+ *
+ * Enforces spending limits on top of telemetry's cost ledger:
+ * - Daily and weekly (rolling 7 day) limits in dollars and tokens
+ * - Lifetime per-goal limits from the goal's "budget" block
+ * - Cycle pacing slows down as a budget approaches its limit
+ *
+ * A limit of 0 (or an omitted goal limit) means unlimited.
+ */
+
+import { getConfig, AgentConfig } from './config.js';
+import { getTelemetry, TelemetryManager } from './telemetry.js';
+import type { DAGGoal } from '../scheduler/dag-scheduler.js';
+
+/** Delay multiplier when a budget is fully spent */
+const MAX_THROTTLE = 4;
+
+export type BudgetScope = 'daily' | 'weekly' | 'goal';
+export type BudgetUnit = 'usd' | 'tokens';
+
+/**
+ * One limit and how much of it is used
+ */
+export interface BudgetLine {
+  scope: BudgetScope;
+  unit: BudgetUnit;
+  goalId?: string;
+  limit: number;
+  spent: number;
+  /** Rounded, for display; limits are checked against spent itself */
+  percent: number;
+}
+
+export class BudgetManager {
+  private config: AgentConfig['budget'];
+  private telemetry: TelemetryManager;
+
+  constructor(config: AgentConfig['budget'] = getConfig().budget, telemetry: TelemetryManager = getTelemetry()) {
+    this.config = config;
+    this.telemetry = telemetry;
+  }
+
+  /**
+   * Daily and weekly limits
+   */
+  getGlobalLines(): BudgetLine[] {
+    const today = this.telemetry.getSpendSince(1);
+    const week = this.telemetry.getSpendSince(7);
+
+    return [
+      this.line('daily', 'usd', this.config.dailyUsd, today.costCents / 100),
+      this.line('weekly', 'usd', this.config.weeklyUsd, week.costCents / 100),
+      this.line('daily', 'tokens', this.config.dailyTokens, today.tokens),
+      this.line('weekly', 'tokens', this.config.weeklyTokens, week.tokens),
+    ].filter((line): line is BudgetLine => line !== null);
+  }
+
+  /**
+   * Lifetime limits for one goal
+   */
+  getGoalLines(goal: DAGGoal): BudgetLine[] {
+    const spend = this.telemetry.getGoalSpend(goal.id);
+
+    return [
+      this.line('goal', 'usd', goal.budget?.usd || 0, spend.costCents / 100, goal.id),
+      this.line('goal', 'tokens', goal.budget?.tokens || 0, spend.tokens, goal.id),
+    ].filter((line): line is BudgetLine => line !== null);
+  }
+
+  /**
+   * Every configured limit, global first
+   */
+  getLines(goals: DAGGoal[] = []): BudgetLine[] {
+    return [...this.getGlobalLines(), ...goals.flatMap(goal => this.getGoalLines(goal))];
+  }
+
+  /**
+   * First global limit that is used up, if any
+   */
+  getExhausted(): BudgetLine | null {
+    return this.getGlobalLines().find(line => line.spent >= line.limit) || null;
+  }
+
+  /**
+   * Check whether a goal has used up its own budget
+   */
+  isGoalExhausted(goal: DAGGoal): boolean {
+    return this.getGoalLines(goal).some(line => line.spent >= line.limit);
+  }
+
+  /**
+   * Delay multiplier for cycle pacing
+   *
+   * 1 until the most-spent budget reaches the throttle threshold, then
+   * rising linearly to MAX_THROTTLE at 100%.
+   */
+  getThrottleMultiplier(goal?: DAGGoal): number {
+    const lines = goal ? [...this.getGlobalLines(), ...this.getGoalLines(goal)] : this.getGlobalLines();
+    const percent = Math.max(0, ...lines.map(line => (line.spent / line.limit) * 100));
+    const threshold = Math.min(this.config.throttlePercent, 99);
+
+    if (percent < threshold) return 1;
+
+    const over = Math.min(1, (percent - threshold) / (100 - threshold));
+    return 1 + over * (MAX_THROTTLE - 1);
+  }
+
+  /**
+   * Time until the daily window rolls over (UTC midnight, matching telemetry)
+   */
+  msUntilReset(): number {
+    const now = new Date();
+    const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+    return midnight - now.getTime();
+  }
+
+  private line(scope: BudgetScope, unit: BudgetUnit, limit: number, spent: number, goalId?: string): BudgetLine | null {
+    if (!limit || limit <= 0) return null;
+
+    return {
+      scope,
+      unit,
+      goalId,
+      limit,
+      spent,
+      percent: Math.round((spent / limit) * 100),
+    };
+  }
+}
+
+/**
+ * Format a budget line for logs and the CLI
+ */
+export function formatBudgetLine(line: BudgetLine): string {
+  const amount = (value: number) => line.unit === 'usd' ? `$${value.toFixed(2)}` : `${Math.round(value).toLocaleString()} tokens`;
+  const label = line.scope === 'goal' ? `goal ${line.goalId}` : line.scope;
+  return `${label}: ${amount(line.spent)} / ${amount(line.limit)} (${line.percent}%)`;
+}
@@ -11,14 +11,11 @@
  * - Same error repeated
  * - Task duration exceeded
  * - Token budget exceeded
+ * - Sandbox violations
  */
 
-import { appendFileSync } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
-
-const AGENT_DIR = join(homedir(), '.hutch-agent');
-const LOG_FILE = process.env.AGENT_LOG_FILE || join(AGENT_DIR, 'agent.log');
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'fs';
+import { CIRCUIT_STATE_FILE, LOG_FILE } from './config.js';
 
 /**
  * Circuit breaker thresholds configuration
@@ -56,6 +53,7 @@ export type TripReason =
   | 'same_error'
   | 'task_duration'
   | 'token_budget'
+  | 'sandbox_violation'
   | 'manual';
 
 /**
@@ -71,6 +69,15 @@ export interface TripEvent {
   threshold?: number;
 }
 
+/**
+ * Persisted breaker state (trip history survives restarts)
+ */
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  tripEvents: TripEvent[];
+  savedAt: string;
+}
+
 /**
  * Cycle record for tracking
  */
@@ -150,6 +157,16 @@ export class CircuitBreaker {
     };
   }
 
+  /**
+   * Apply new thresholds (e.g. after a config reload); history is kept
+   */
+  configure(config: Partial<CircuitBreakerConfig>): void {
+    this.config = {
+      soft: { ...this.config.soft, ...config.soft },
+      hard: { ...this.config.hard, ...config.hard },
+    };
+  }
+
   /**
    * Set callbacks for trip and reset events
    */
@@ -197,7 +214,8 @@ export class CircuitBreaker {
       const taskDuration = Date.now() - this.taskStartTime;
       if (taskDuration >= this.config.hard.maxTaskDurationMs) {
         this.trip('hard', 'task_duration',
-          `Task duration exceeded: ${Math.round(taskDuration / 1000)}s >= ${this.config.hard.maxTaskDurationMs / 1000}s`);
+          `Task duration exceeded: ${Math.round(taskDuration / 1000)}s >= ${this.config.hard.maxTaskDurationMs / 1000}s`,
+          record.taskId);
       }
     }
 
@@ -207,7 +225,7 @@ export class CircuitBreaker {
       this.maybeReset();
     } else {
       this.consecutiveFailures++;
-      this.checkFailureThresholds();
+      this.checkFailureThresholds(record.taskId);
     }
 
     // Store cycle
@@ -217,8 +235,8 @@ export class CircuitBreaker {
     }
 
     // Check for loops
-    this.checkOutputSimilarity();
-    this.checkRepeatedErrors();
+    this.checkOutputSimilarity(record.taskId);
+    this.checkRepeatedErrors(record.taskId);
   }
 
   /**
@@ -289,12 +307,57 @@ export class CircuitBreaker {
 
     if (previousState !== 'closed') {
       this.log(`Circuit breaker reset from ${previousState}`);
+      this.saveState();
       if (this.onReset) {
         this.onReset();
       }
     }
   }
 
+  /**
+   * Restore trip history from disk
+   *
+   * The circuit itself starts closed - whatever tripped it was already
+   * handled (e.g. the task was parked as blocked) before the restart.
+   */
+  loadState(): boolean {
+    try {
+      if (!existsSync(CIRCUIT_STATE_FILE)) return false;
+      const snapshot = JSON.parse(readFileSync(CIRCUIT_STATE_FILE, 'utf-8')) as CircuitBreakerSnapshot;
+      this.tripEvents = (snapshot.tripEvents || []).slice(-50);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Persist current state and trip history
+   */
+  saveState(): void {
+    const snapshot: CircuitBreakerSnapshot = {
+      state: this.state,
+      tripEvents: this.tripEvents,
+      savedAt: new Date().toISOString(),
+    };
+    try {
+      writeFileSync(CIRCUIT_STATE_FILE, JSON.stringify(snapshot, null, 2));
+    } catch {
+      // Ignore persistence errors - the breaker still works in memory
+    }
+  }
+
+  /**
+   * Report what a sandboxed session tried and was refused - always a hard
+   * trip, so the task waits for a human to widen the profile or fix it
+   */
+  recordViolation(taskId: string, violations: string[]): void {
+    const more = violations.length > 3 ? ` (+${violations.length - 3} more)` : '';
+    this.trip('hard', 'sandbox_violation',
+      `Sandbox violation: ${violations.slice(0, 3).join('; ')}${more}`,
+      taskId);
+  }
+
   /**
    * Manually trip the circuit breaker (e.g., from external signal)
    */
@@ -306,7 +369,7 @@ export class CircuitBreaker {
   // Private methods
   // ============================================================
 
-  private trip(level: 'soft' | 'hard', reason: TripReason, message: string): void {
+  private trip(level: 'soft' | 'hard', reason: TripReason, message: string, taskId?: string): void {
     // Don't downgrade from hard to soft
     if (this.state === 'hard_open' && level === 'soft') {
       return;
@@ -317,7 +380,7 @@ export class CircuitBreaker {
       reason,
       message,
       timestamp: new Date().toISOString(),
-      taskId: this.currentTaskId || undefined,
+      taskId: taskId || this.currentTaskId || undefined,
     };
 
     this.state = level === 'hard' ? 'hard_open' : 'soft_open';
@@ -329,6 +392,7 @@ export class CircuitBreaker {
     }
 
     this.log(`CIRCUIT ${level.toUpperCase()}: ${message}`);
+    this.saveState();
 
     if (this.onTrip) {
       this.onTrip(event);
@@ -340,25 +404,26 @@ export class CircuitBreaker {
     if (this.state === 'soft_open' && this.consecutiveFailures === 0) {
       this.state = 'closed';
       this.log('Circuit breaker auto-reset after success');
+      this.saveState();
     }
   }
 
-  private checkFailureThresholds(): void {
+  private checkFailureThresholds(taskId: string): void {
     // Check hard threshold first
     if (this.consecutiveFailures >= this.config.hard.consecutiveFailures) {
       this.trip('hard', 'consecutive_failures',
-        `${this.consecutiveFailures} consecutive failures (hard limit: ${this.config.hard.consecutiveFailures})`);
+        `${this.consecutiveFailures} consecutive failures (hard limit: ${this.config.hard.consecutiveFailures})`, taskId);
       return;
     }
 
     // Check soft threshold
     if (this.consecutiveFailures >= this.config.soft.consecutiveFailures) {
       this.trip('soft', 'consecutive_failures',
-        `${this.consecutiveFailures} consecutive failures (soft limit: ${this.config.soft.consecutiveFailures})`);
+        `${this.consecutiveFailures} consecutive failures (soft limit: ${this.config.soft.consecutiveFailures})`, taskId);
     }
   }
 
-  private checkOutputSimilarity(): void {
+  private checkOutputSimilarity(taskId: string): void {
     if (this.recentCycles.length < 3) return;
 
     // Get last 5 cycles
@@ -381,11 +446,11 @@ export class CircuitBreaker {
     // If 3+ of last 5 outputs are very similar, we're likely in a loop
     if (similarCount >= 2) {
       this.trip('soft', 'output_similarity',
-        `Output similarity detected: ${similarCount + 1} of ${outputs.length} outputs are ${this.config.soft.outputSimilarityPercent}%+ similar`);
+        `Output similarity detected: ${similarCount + 1} of ${outputs.length} outputs are ${this.config.soft.outputSimilarityPercent}%+ similar`, taskId);
     }
   }
 
-  private checkRepeatedErrors(): void {
+  private checkRepeatedErrors(taskId: string): void {
     if (this.recentCycles.length < 3) return;
 
     // Get last 5 error messages
@@ -408,7 +473,7 @@ export class CircuitBreaker {
     for (const [error, count] of errorCounts) {
       if (count >= this.config.soft.sameErrorCount) {
         this.trip('soft', 'same_error',
-          `Same error repeated ${count} times: "${error.substring(0, 100)}..."`);
+          `Same error repeated ${count} times: "${error.substring(0, 100)}..."`, taskId);
         break;
       }
     }
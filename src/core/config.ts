@@ -1,17 +1,24 @@
 /**
  * Hutch Agent Configuration
  *
- * Centralized configuration loaded from environment variables.
- * All hardcoded values are externalized here with sensible defaults.
+ * Centralized configuration. All hardcoded values are externalized here
+ * with sensible defaults.
  *
- * Environment variables can be set in:
- * - ~/.hutch-agent/.env
- * - System environment
+ * Settings in AgentConfig are layered, later layers winning:
+ * 1. Defaults below
+ * 2. ~/.hutch-agent/config.json (same shape as AgentConfig, any subset)
+ * 3. ~/.hutch-agent/.env and the system environment
+ *
+ * getConfig() returns the current validated object. reloadConfig()
+ * re-reads the files (the loop calls it on SIGHUP). Paths and the
+ * exported constants are fixed at startup.
  */
 
 import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import type { RollbackPolicy } from './snapshots.js';
+import type { SchedulingPolicy } from '../scheduler/scheduling-policy.js';
 
 // ============================================================
 // Directory Paths
@@ -25,6 +32,16 @@ export const PID_FILE = process.env.AGENT_PID_FILE || join(AGENT_DIR, 'agent.pid
 export const CHECKPOINTS_DIR = process.env.CHECKPOINTS_DIR || join(AGENT_DIR, 'checkpoints');
 export const COMPLETED_TASKS_FILE = process.env.COMPLETED_TASKS_FILE || join(AGENT_DIR, 'completed-tasks.json');
 export const DAG_STATE_FILE = process.env.DAG_STATE_FILE || join(AGENT_DIR, 'dag-state.json');
+export const CIRCUIT_STATE_FILE = process.env.CIRCUIT_STATE_FILE || join(AGENT_DIR, 'circuit-breaker.json');
+export const SESSIONS_FILE = process.env.SESSIONS_FILE || join(AGENT_DIR, 'sessions.json');
+export const CONFIG_FILE = process.env.AGENT_CONFIG_FILE || join(AGENT_DIR, 'config.json');
+export const APPROVALS_FILE = process.env.APPROVALS_FILE || join(AGENT_DIR, 'approvals.json');
+export const INBOX_FILE = process.env.INBOX_FILE || join(AGENT_DIR, 'inbox.json');
+export const DIFFS_DIR = process.env.DIFFS_DIR || join(AGENT_DIR, 'diffs');
+export const PLAN_CHANGES_FILE = process.env.PLAN_CHANGES_FILE || join(AGENT_DIR, 'plan-changes.jsonl');
+export const CONTROL_TOKEN_FILE = process.env.CONTROL_TOKEN_FILE || join(AGENT_DIR, 'control-token');
+export const READ_TOKEN_FILE = process.env.READ_TOKEN_FILE || join(AGENT_DIR, 'read-token');
+export const CONTROL_QUEUE_FILE = process.env.CONTROL_QUEUE_FILE || join(AGENT_DIR, 'control.json');
 
 // ============================================================
 // Load .env file
@@ -50,8 +67,8 @@ function loadEnvFile(): Record<string, string> {
   return env;
 }
 
-// Load env file once
-const envFile = loadEnvFile();
+// Load env file once (reloadConfig() refreshes it)
+let envFile = loadEnvFile();
 
 /**
  * Get config value from env file, process.env, or default
@@ -69,6 +86,15 @@ function getEnvNumber(key: string, defaultValue: number): number {
   return defaultValue;
 }
 
+function getEnvFloat(key: string, defaultValue: number): number {
+  const value = envFile[key] || process.env[key];
+  if (value) {
+    const parsed = parseFloat(value);
+    if (!isNaN(parsed)) return parsed;
+  }
+  return defaultValue;
+}
+
 function getEnvBoolean(key: string, defaultValue: boolean): boolean {
   const value = envFile[key] || process.env[key];
   if (value) {
@@ -77,57 +103,167 @@ function getEnvBoolean(key: string, defaultValue: boolean): boolean {
   return defaultValue;
 }
 
+// ============================================================
+// Config File Layer
+// ============================================================
+
+/**
+ * Raised when config.json or the environment holds invalid settings
+ */
+export class ConfigError extends Error {
+  constructor(readonly issues: string[]) {
+    super(`Invalid configuration:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+type ConfigSource = Record<string, unknown>;
+
+/**
+ * Read config.json; a missing file is an empty layer
+ */
+function loadConfigFile(issues: string[]): ConfigSource {
+  if (!existsSync(CONFIG_FILE)) return {};
+
+  try {
+    const parsed = JSON.parse(readFileSync(CONFIG_FILE, 'utf-8'));
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed;
+    }
+    issues.push(`${CONFIG_FILE} must contain a JSON object`);
+  } catch (err: any) {
+    issues.push(`${CONFIG_FILE} is not valid JSON: ${err.message}`);
+  }
+  return {};
+}
+
+/**
+ * Resolves one setting from env, then config.json, then the default.
+ * Bad values are collected as issues and fall back to the default.
+ */
+class ConfigLayers {
+  constructor(
+    private env: Record<string, string | undefined>,
+    private file: ConfigSource,
+    readonly issues: string[]
+  ) {}
+
+  string(envKey: string, path: string, defaultValue: string): string {
+    const envValue = this.env[envKey];
+    if (envValue) return envValue;
+
+    const fileValue = this.fromFile(path);
+    if (fileValue === undefined) return defaultValue;
+    if (typeof fileValue === 'string') return fileValue;
+
+    this.issues.push(`config.json ${path} must be a string`);
+    return defaultValue;
+  }
+
+  number(envKey: string, path: string, defaultValue: number): number {
+    const envValue = this.env[envKey];
+    if (envValue) {
+      const parsed = Number(envValue);
+      if (!isNaN(parsed)) return parsed;
+      this.issues.push(`${envKey}=${envValue} is not a number`);
+      return defaultValue;
+    }
+
+    const fileValue = this.fromFile(path);
+    if (fileValue === undefined) return defaultValue;
+    if (typeof fileValue === 'number' && !isNaN(fileValue)) return fileValue;
+
+    this.issues.push(`config.json ${path} must be a number`);
+    return defaultValue;
+  }
+
+  boolean(envKey: string, path: string, defaultValue: boolean): boolean {
+    const envValue = this.env[envKey];
+    if (envValue) {
+      if (envValue.toLowerCase() === 'true' || envValue === '1') return true;
+      if (envValue.toLowerCase() === 'false' || envValue === '0') return false;
+      this.issues.push(`${envKey}=${envValue} is not true/false`);
+      return defaultValue;
+    }
+
+    const fileValue = this.fromFile(path);
+    if (fileValue === undefined) return defaultValue;
+    if (typeof fileValue === 'boolean') return fileValue;
+
+    this.issues.push(`config.json ${path} must be true or false`);
+    return defaultValue;
+  }
+
+  private fromFile(path: string): unknown {
+    let node: unknown = this.file;
+    for (const key of path.split('.')) {
+      if (!node || typeof node !== 'object') return undefined;
+      node = (node as ConfigSource)[key];
+    }
+    return node;
+  }
+}
+
+// Resolved once at import; reloadConfig() replaces `current`
+const startup = resolveConfig(envFile);
+let current = startup;
+
 // ============================================================
 // HutchMem Integration
 // ============================================================
 
-export const HUTCHMEM_API_URL = getEnv('HUTCHMEM_API_URL', 'http://localhost:37777');
-export const HUTCHMEM_TIMEOUT_MS = getEnvNumber('HUTCHMEM_TIMEOUT_MS', 3000);
-export const HUTCHMEM_PROJECT = getEnv('HUTCHMEM_PROJECT', 'personal');
+export const HUTCHMEM_API_URL = startup.config.hutchMemApiUrl;
+export const HUTCHMEM_TIMEOUT_MS = startup.config.hutchMemTimeoutMs;
+export const HUTCHMEM_PROJECT = startup.config.hutchMemProject;
 
 // ============================================================
 // Claude Execution
 // ============================================================
 
-export const CLAUDE_MODEL = getEnv('CLAUDE_MODEL', 'sonnet');
-export const MAX_TURNS_PER_CYCLE = getEnvNumber('MAX_TURNS', 50);
-export const MAX_CYCLE_TIME_MS = getEnvNumber('MAX_CYCLE_TIME_MS', 15 * 60 * 1000); // 15 minutes
-export const STUCK_TIMEOUT_MS = getEnvNumber('STUCK_TIMEOUT_MS', 2 * 60 * 1000); // 2 minutes
+export const CLAUDE_MODEL = startup.config.claudeModel;
+export const MAX_TURNS_PER_CYCLE = startup.config.maxTurns;
+export const MAX_CYCLE_TIME_MS = startup.config.maxCycleTimeMs;
+export const STUCK_TIMEOUT_MS = startup.config.stuckTimeoutMs;
+
+// Session resume - later attempts at a task continue its Claude session
+export const SESSION_RESUME_ENABLED = startup.config.sessions.resume;
+export const SESSION_MAX_TURNS = startup.config.sessions.maxTurns; // Start fresh past this many turns
+export const SESSION_FRESH_AFTER_FAILURE = startup.config.sessions.freshAfterFailure;
 export const OUTPUT_FORMAT = getEnv('OUTPUT_FORMAT', 'stream-json');
 
 // ============================================================
 // Heartbeat Configuration
 // ============================================================
 
-export const HEARTBEAT_INTERVAL_MS = getEnvNumber('HEARTBEAT_INTERVAL_MS', 30000);
-export const HEARTBEAT_FAILURE_THRESHOLD = getEnvNumber('HEARTBEAT_FAILURE_THRESHOLD', 3);
+export const HEARTBEAT_INTERVAL_MS = startup.config.heartbeatIntervalMs;
+export const HEARTBEAT_FAILURE_THRESHOLD = startup.config.failureThreshold;
 
 // Urgency thresholds (hours until deadline)
-export const DEADLINE_CRITICAL_HOURS = getEnvNumber('DEADLINE_CRITICAL_HOURS', 6);
-export const DEADLINE_HIGH_HOURS = getEnvNumber('DEADLINE_HIGH_HOURS', 24);
-export const DEADLINE_MEDIUM_HOURS = getEnvNumber('DEADLINE_MEDIUM_HOURS', 72);
+export const DEADLINE_CRITICAL_HOURS = startup.config.urgencyThresholds.critical;
+export const DEADLINE_HIGH_HOURS = startup.config.urgencyThresholds.high;
+export const DEADLINE_MEDIUM_HOURS = startup.config.urgencyThresholds.medium;
 
 // Cycle delays based on urgency (milliseconds)
-export const CYCLE_DELAY_CRITICAL_MS = getEnvNumber('CYCLE_DELAY_CRITICAL_MS', 2000);
-export const CYCLE_DELAY_HIGH_MS = getEnvNumber('CYCLE_DELAY_HIGH_MS', 5000);
-export const CYCLE_DELAY_MEDIUM_MS = getEnvNumber('CYCLE_DELAY_MEDIUM_MS', 8000);
-export const CYCLE_DELAY_NORMAL_MS = getEnvNumber('CYCLE_DELAY_NORMAL_MS', 10000);
-export const CYCLE_DELAY_FAILURE_MS = getEnvNumber('CYCLE_DELAY_FAILURE_MS', 30000);
-export const CYCLE_DELAY_ERROR_MS = getEnvNumber('CYCLE_DELAY_ERROR_MS', 30000);
+export const CYCLE_DELAY_CRITICAL_MS = startup.config.cycleDelays.critical;
+export const CYCLE_DELAY_HIGH_MS = startup.config.cycleDelays.high;
+export const CYCLE_DELAY_MEDIUM_MS = startup.config.cycleDelays.medium;
+export const CYCLE_DELAY_NORMAL_MS = startup.config.cycleDelays.normal;
+export const CYCLE_DELAY_FAILURE_MS = startup.config.cycleDelays.failure;
+export const CYCLE_DELAY_ERROR_MS = startup.config.cycleDelays.error;
 
 // ============================================================
 // Circuit Breaker Configuration
 // ============================================================
 
 // Soft thresholds (warnings)
-export const CIRCUIT_SOFT_FAILURES = getEnvNumber('CIRCUIT_SOFT_FAILURES', 3);
-export const CIRCUIT_SOFT_SIMILARITY_PERCENT = getEnvNumber('CIRCUIT_SOFT_SIMILARITY_PERCENT', 80);
-export const CIRCUIT_SOFT_SAME_ERROR_COUNT = getEnvNumber('CIRCUIT_SOFT_SAME_ERROR_COUNT', 3);
+export const CIRCUIT_SOFT_FAILURES = startup.config.circuitBreaker.soft.consecutiveFailures;
+export const CIRCUIT_SOFT_SIMILARITY_PERCENT = startup.config.circuitBreaker.soft.outputSimilarityPercent;
+export const CIRCUIT_SOFT_SAME_ERROR_COUNT = startup.config.circuitBreaker.soft.sameErrorCount;
 
 // Hard thresholds (blocking)
-export const CIRCUIT_HARD_FAILURES = getEnvNumber('CIRCUIT_HARD_FAILURES', 5);
-export const MAX_TASK_DURATION_MS = getEnvNumber('MAX_TASK_DURATION_MS', 10 * 60 * 1000); // 10 minutes
-export const MAX_TOKENS_PER_TASK = getEnvNumber('MAX_TOKENS_PER_TASK', 50000);
+export const CIRCUIT_HARD_FAILURES = startup.config.circuitBreaker.hard.consecutiveFailures;
+export const MAX_TASK_DURATION_MS = startup.config.circuitBreaker.hard.maxTaskDurationMs;
+export const MAX_TOKENS_PER_TASK = startup.config.circuitBreaker.hard.maxTokensPerTask;
 
 // ============================================================
 // State Management
@@ -137,6 +273,7 @@ export const MAX_RECENT_ACTIONS = getEnvNumber('MAX_RECENT_ACTIONS', 50);
 export const CHECKPOINT_INTERVAL_MS = getEnvNumber('CHECKPOINT_INTERVAL_MS', 60000); // 1 minute
 export const MAX_TRIP_EVENTS = getEnvNumber('MAX_TRIP_EVENTS', 50);
 export const MAX_RECENT_CYCLES = getEnvNumber('MAX_RECENT_CYCLES', 20);
+export const EVENT_BUFFER_SIZE = getEnvNumber('EVENT_BUFFER_SIZE', 1000); // Events kept for /events replay
 
 // ============================================================
 // Scheduler Configuration
@@ -145,21 +282,53 @@ export const MAX_RECENT_CYCLES = getEnvNumber('MAX_RECENT_CYCLES', 20);
 export const MIN_CYCLE_MS = getEnvNumber('MIN_CYCLE_MS', 5000);
 export const MAX_CYCLE_MS = getEnvNumber('MAX_CYCLE_MS', 60000);
 export const DEFAULT_TASK_RETRIES = getEnvNumber('DEFAULT_TASK_RETRIES', 3);
+// Ready tasks run side by side in separate git worktrees when > 1
+export const MAX_PARALLEL_TASKS = startup.config.maxParallelTasks;
+// priority, round-robin or deadline (see scheduler/scheduling-policy.ts)
+export const SCHEDULING_POLICY = startup.config.scheduling.policy;
+
+// ============================================================
+// Budget Configuration
+// ============================================================
+
+// Spending limits, 0 = unlimited. Goals can add their own "budget" block.
+export const DAILY_BUDGET_USD = startup.config.budget.dailyUsd;
+export const WEEKLY_BUDGET_USD = startup.config.budget.weeklyUsd;
+export const DAILY_TOKEN_BUDGET = startup.config.budget.dailyTokens;
+export const WEEKLY_TOKEN_BUDGET = startup.config.budget.weeklyTokens;
+// Cycles slow down once any budget is this far spent
+export const BUDGET_THROTTLE_PERCENT = startup.config.budget.throttlePercent;
+
+// ============================================================
+// Status API Configuration
+// ============================================================
+
+export const STATUS_API_ENABLED = getEnvBoolean('STATUS_API_ENABLED', true);
+export const STATUS_API_PORT = getEnvNumber('STATUS_API_PORT', 37778); // One above HutchMem
+// 0.0.0.0 to reach the API from other machines (set a TLS cert/key too)
+export const STATUS_API_HOST = getEnv('STATUS_API_HOST', '127.0.0.1');
+export const STATUS_API_TLS_CERT = getEnv('STATUS_API_TLS_CERT', '');
+export const STATUS_API_TLS_KEY = getEnv('STATUS_API_TLS_KEY', '');
+// Browser origins allowed to call the API, comma-separated ('*' for any)
+export const STATUS_API_CORS_ORIGINS = getEnv('STATUS_API_CORS_ORIGINS', '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
 
 // ============================================================
 // Memory Configuration
 // ============================================================
 
 export const MEMORY_SEARCH_LIMIT = getEnvNumber('MEMORY_SEARCH_LIMIT', 10);
-export const MEMORY_RELEVANCE_THRESHOLD = getEnvNumber('MEMORY_RELEVANCE_THRESHOLD', 0.5);
+export const MEMORY_RELEVANCE_THRESHOLD = getEnvFloat('MEMORY_RELEVANCE_THRESHOLD', 0.5);
 
 // ============================================================
 // Telemetry Configuration
 // ============================================================
 
-export const TELEMETRY_ENABLED = getEnvBoolean('TELEMETRY_ENABLED', false);
+export const TELEMETRY_ENABLED = startup.config.features.telemetry;
 export const TELEMETRY_ENDPOINT = getEnv('TELEMETRY_ENDPOINT', '');
-export const COST_TRACKING_ENABLED = getEnvBoolean('COST_TRACKING_ENABLED', true);
+export const COST_TRACKING_ENABLED = startup.config.features.costTracking;
 
 // Token costs (per 1M tokens, in cents)
 export const TOKEN_COST_INPUT = getEnvNumber('TOKEN_COST_INPUT', 300); // $3/M input
@@ -169,10 +338,9 @@ export const TOKEN_COST_OUTPUT = getEnvNumber('TOKEN_COST_OUTPUT', 1500); // $15
 // Feature Flags
 // ============================================================
 
-export const ENABLE_DAG_SCHEDULER = getEnvBoolean('ENABLE_DAG_SCHEDULER', false);
-export const ENABLE_MULTI_AGENT = getEnvBoolean('ENABLE_MULTI_AGENT', false);
-export const ENABLE_MEMORY_EXTRACTION = getEnvBoolean('ENABLE_MEMORY_EXTRACTION', true);
-export const ENABLE_USER_MODEL = getEnvBoolean('ENABLE_USER_MODEL', true);
+export const ENABLE_MULTI_AGENT = startup.config.features.multiAgent;
+export const ENABLE_MEMORY_EXTRACTION = startup.config.features.memoryExtraction;
+export const ENABLE_USER_MODEL = startup.config.features.userModel;
 
 // ============================================================
 // Config Object (for passing around)
@@ -197,6 +365,45 @@ export interface AgentConfig {
   maxTurns: number;
   maxCycleTimeMs: number;
   stuckTimeoutMs: number;
+  sessions: {
+    resume: boolean;
+    maxTurns: number;
+    freshAfterFailure: boolean;
+  };
+  // Model per task complexity; failures escalate simple → medium → complex
+  modelRouting: {
+    enabled: boolean;
+    simple: string;
+    medium: string;
+    complex: string;
+    escalateAfterFailures: number;  // 0 = never escalate
+  };
+  // Acceptance checks run after a task's session reports completion
+  verification: {
+    maxRetries: number;   // Re-executions within a cycle after failed checks
+    timeoutMs: number;    // Per command/test check
+  };
+  // Working tree snapshot before each cycle, undone on failure per policy
+  snapshots: {
+    enabled: boolean;
+    rollback: RollbackPolicy;
+  };
+
+  // Scheduler
+  maxParallelTasks: number;
+  // Which active goal each cycle works on
+  scheduling: {
+    policy: SchedulingPolicy;
+  };
+
+  // Budgets (0 = unlimited)
+  budget: {
+    dailyUsd: number;
+    weeklyUsd: number;
+    dailyTokens: number;
+    weeklyTokens: number;
+    throttlePercent: number;
+  };
 
   // Heartbeat
   heartbeatIntervalMs: number;
@@ -231,7 +438,6 @@ export interface AgentConfig {
 
   // Features
   features: {
-    dagScheduler: boolean;
     multiAgent: boolean;
     memoryExtraction: boolean;
     userModel: boolean;
@@ -241,10 +447,14 @@ export interface AgentConfig {
 }
 
 /**
- * Get the full config object
+ * Build the config object from defaults, config.json and the environment
  */
-export function getConfig(): AgentConfig {
-  return {
+function resolveConfig(envLayer: Record<string, string>): { config: AgentConfig; issues: string[] } {
+  const issues: string[] = [];
+  const c = new ConfigLayers({ ...process.env, ...envLayer }, loadConfigFile(issues), issues);
+  const claudeModel = c.string('CLAUDE_MODEL', 'claudeModel', 'sonnet');
+
+  const config: AgentConfig = {
     agentDir: AGENT_DIR,
     goalsDir: GOALS_DIR,
     logFile: LOG_FILE,
@@ -252,53 +462,205 @@ export function getConfig(): AgentConfig {
     pidFile: PID_FILE,
     checkpointsDir: CHECKPOINTS_DIR,
 
-    hutchMemApiUrl: HUTCHMEM_API_URL,
-    hutchMemTimeoutMs: HUTCHMEM_TIMEOUT_MS,
-    hutchMemProject: HUTCHMEM_PROJECT,
+    hutchMemApiUrl: c.string('HUTCHMEM_API_URL', 'hutchMemApiUrl', 'http://localhost:37777'),
+    hutchMemTimeoutMs: c.number('HUTCHMEM_TIMEOUT_MS', 'hutchMemTimeoutMs', 3000),
+    hutchMemProject: c.string('HUTCHMEM_PROJECT', 'hutchMemProject', 'personal'),
+
+    claudeModel,
+    maxTurns: c.number('MAX_TURNS', 'maxTurns', 50),
+    maxCycleTimeMs: c.number('MAX_CYCLE_TIME_MS', 'maxCycleTimeMs', 15 * 60 * 1000), // 15 minutes
+    stuckTimeoutMs: c.number('STUCK_TIMEOUT_MS', 'stuckTimeoutMs', 2 * 60 * 1000), // 2 minutes
+    sessions: {
+      resume: c.boolean('SESSION_RESUME_ENABLED', 'sessions.resume', true),
+      maxTurns: c.number('SESSION_MAX_TURNS', 'sessions.maxTurns', 200),
+      freshAfterFailure: c.boolean('SESSION_FRESH_AFTER_FAILURE', 'sessions.freshAfterFailure', true),
+    },
+    modelRouting: {
+      enabled: c.boolean('MODEL_ROUTING_ENABLED', 'modelRouting.enabled', false),
+      simple: c.string('MODEL_SIMPLE', 'modelRouting.simple', 'haiku'),
+      medium: c.string('MODEL_MEDIUM', 'modelRouting.medium', claudeModel),
+      complex: c.string('MODEL_COMPLEX', 'modelRouting.complex', 'opus'),
+      escalateAfterFailures: c.number('MODEL_ESCALATE_AFTER_FAILURES', 'modelRouting.escalateAfterFailures', 2),
+    },
+    verification: {
+      maxRetries: c.number('VERIFY_MAX_RETRIES', 'verification.maxRetries', 1),
+      timeoutMs: c.number('VERIFY_TIMEOUT_MS', 'verification.timeoutMs', 5 * 60 * 1000), // 5 minutes
+    },
+    snapshots: {
+      enabled: c.boolean('SNAPSHOTS_ENABLED', 'snapshots.enabled', true),
+      rollback: c.string('ROLLBACK_POLICY', 'snapshots.rollback', 'never') as RollbackPolicy,
+    },
+
+    maxParallelTasks: c.number('MAX_PARALLEL_TASKS', 'maxParallelTasks', 1),
+    scheduling: {
+      policy: c.string('SCHEDULING_POLICY', 'scheduling.policy', 'priority') as SchedulingPolicy,
+    },
 
-    claudeModel: CLAUDE_MODEL,
-    maxTurns: MAX_TURNS_PER_CYCLE,
-    maxCycleTimeMs: MAX_CYCLE_TIME_MS,
-    stuckTimeoutMs: STUCK_TIMEOUT_MS,
+    budget: {
+      dailyUsd: c.number('DAILY_BUDGET_USD', 'budget.dailyUsd', 0),
+      weeklyUsd: c.number('WEEKLY_BUDGET_USD', 'budget.weeklyUsd', 0),
+      dailyTokens: c.number('DAILY_TOKEN_BUDGET', 'budget.dailyTokens', 0),
+      weeklyTokens: c.number('WEEKLY_TOKEN_BUDGET', 'budget.weeklyTokens', 0),
+      throttlePercent: c.number('BUDGET_THROTTLE_PERCENT', 'budget.throttlePercent', 80),
+    },
 
-    heartbeatIntervalMs: HEARTBEAT_INTERVAL_MS,
-    failureThreshold: HEARTBEAT_FAILURE_THRESHOLD,
+    heartbeatIntervalMs: c.number('HEARTBEAT_INTERVAL_MS', 'heartbeatIntervalMs', 30000),
+    failureThreshold: c.number('HEARTBEAT_FAILURE_THRESHOLD', 'failureThreshold', 3),
     urgencyThresholds: {
-      critical: DEADLINE_CRITICAL_HOURS,
-      high: DEADLINE_HIGH_HOURS,
-      medium: DEADLINE_MEDIUM_HOURS,
+      critical: c.number('DEADLINE_CRITICAL_HOURS', 'urgencyThresholds.critical', 6),
+      high: c.number('DEADLINE_HIGH_HOURS', 'urgencyThresholds.high', 24),
+      medium: c.number('DEADLINE_MEDIUM_HOURS', 'urgencyThresholds.medium', 72),
     },
     cycleDelays: {
-      critical: CYCLE_DELAY_CRITICAL_MS,
-      high: CYCLE_DELAY_HIGH_MS,
-      medium: CYCLE_DELAY_MEDIUM_MS,
-      normal: CYCLE_DELAY_NORMAL_MS,
-      failure: CYCLE_DELAY_FAILURE_MS,
-      error: CYCLE_DELAY_ERROR_MS,
+      critical: c.number('CYCLE_DELAY_CRITICAL_MS', 'cycleDelays.critical', 2000),
+      high: c.number('CYCLE_DELAY_HIGH_MS', 'cycleDelays.high', 5000),
+      medium: c.number('CYCLE_DELAY_MEDIUM_MS', 'cycleDelays.medium', 8000),
+      normal: c.number('CYCLE_DELAY_NORMAL_MS', 'cycleDelays.normal', 10000),
+      failure: c.number('CYCLE_DELAY_FAILURE_MS', 'cycleDelays.failure', 30000),
+      error: c.number('CYCLE_DELAY_ERROR_MS', 'cycleDelays.error', 30000),
     },
 
     circuitBreaker: {
       soft: {
-        consecutiveFailures: CIRCUIT_SOFT_FAILURES,
-        outputSimilarityPercent: CIRCUIT_SOFT_SIMILARITY_PERCENT,
-        sameErrorCount: CIRCUIT_SOFT_SAME_ERROR_COUNT,
+        consecutiveFailures: c.number('CIRCUIT_SOFT_FAILURES', 'circuitBreaker.soft.consecutiveFailures', 3),
+        outputSimilarityPercent: c.number('CIRCUIT_SOFT_SIMILARITY_PERCENT', 'circuitBreaker.soft.outputSimilarityPercent', 80),
+        sameErrorCount: c.number('CIRCUIT_SOFT_SAME_ERROR_COUNT', 'circuitBreaker.soft.sameErrorCount', 3),
       },
       hard: {
-        consecutiveFailures: CIRCUIT_HARD_FAILURES,
-        maxTaskDurationMs: MAX_TASK_DURATION_MS,
-        maxTokensPerTask: MAX_TOKENS_PER_TASK,
+        consecutiveFailures: c.number('CIRCUIT_HARD_FAILURES', 'circuitBreaker.hard.consecutiveFailures', 5),
+        maxTaskDurationMs: c.number('MAX_TASK_DURATION_MS', 'circuitBreaker.hard.maxTaskDurationMs', 10 * 60 * 1000), // 10 minutes
+        maxTokensPerTask: c.number('MAX_TOKENS_PER_TASK', 'circuitBreaker.hard.maxTokensPerTask', 50000),
       },
     },
 
     features: {
-      dagScheduler: ENABLE_DAG_SCHEDULER,
-      multiAgent: ENABLE_MULTI_AGENT,
-      memoryExtraction: ENABLE_MEMORY_EXTRACTION,
-      userModel: ENABLE_USER_MODEL,
-      telemetry: TELEMETRY_ENABLED,
-      costTracking: COST_TRACKING_ENABLED,
+      multiAgent: c.boolean('ENABLE_MULTI_AGENT', 'features.multiAgent', false),
+      memoryExtraction: c.boolean('ENABLE_MEMORY_EXTRACTION', 'features.memoryExtraction', true),
+      userModel: c.boolean('ENABLE_USER_MODEL', 'features.userModel', true),
+      telemetry: c.boolean('TELEMETRY_ENABLED', 'features.telemetry', false),
+      costTracking: c.boolean('COST_TRACKING_ENABLED', 'features.costTracking', true),
     },
   };
+
+  return { config, issues: [...issues, ...validateConfig(config)] };
+}
+
+/**
+ * Range checks on a resolved config; returns one message per problem
+ */
+function validateConfig(config: AgentConfig): string[] {
+  const issues: string[] = [];
+
+  const positive: Record<string, number> = {
+    hutchMemTimeoutMs: config.hutchMemTimeoutMs,
+    maxTurns: config.maxTurns,
+    maxCycleTimeMs: config.maxCycleTimeMs,
+    stuckTimeoutMs: config.stuckTimeoutMs,
+    'sessions.maxTurns': config.sessions.maxTurns,
+    'verification.timeoutMs': config.verification.timeoutMs,
+    maxParallelTasks: config.maxParallelTasks,
+    heartbeatIntervalMs: config.heartbeatIntervalMs,
+    failureThreshold: config.failureThreshold,
+    'circuitBreaker.soft.consecutiveFailures': config.circuitBreaker.soft.consecutiveFailures,
+    'circuitBreaker.hard.consecutiveFailures': config.circuitBreaker.hard.consecutiveFailures,
+    'circuitBreaker.hard.maxTaskDurationMs': config.circuitBreaker.hard.maxTaskDurationMs,
+    'circuitBreaker.hard.maxTokensPerTask': config.circuitBreaker.hard.maxTokensPerTask,
+  };
+  for (const [key, value] of Object.entries(positive)) {
+    if (!Number.isInteger(value) || value <= 0) {
+      issues.push(`${key} must be a positive integer (got ${value})`);
+    }
+  }
+
+  const nonNegative: Record<string, number> = {
+    ...Object.fromEntries(Object.entries(config.cycleDelays).map(([k, v]) => [`cycleDelays.${k}`, v])),
+    ...Object.fromEntries(Object.entries(config.budget).map(([k, v]) => [`budget.${k}`, v])),
+    'modelRouting.escalateAfterFailures': config.modelRouting.escalateAfterFailures,
+    'verification.maxRetries': config.verification.maxRetries,
+  };
+  for (const [key, value] of Object.entries(nonNegative)) {
+    if (value < 0) {
+      issues.push(`${key} must not be negative (got ${value})`);
+    }
+  }
+
+  if (config.budget.throttlePercent > 100) {
+    issues.push(`budget.throttlePercent must be 0-100 (got ${config.budget.throttlePercent})`);
+  }
+  if (config.stuckTimeoutMs > config.maxCycleTimeMs) {
+    issues.push('stuckTimeoutMs must not exceed maxCycleTimeMs');
+  }
+
+  if (!['never', 'trip', 'failure'].includes(config.snapshots.rollback)) {
+    issues.push(`snapshots.rollback must be never, trip or failure (got ${config.snapshots.rollback})`);
+  }
+  if (!['priority', 'round-robin', 'deadline'].includes(config.scheduling.policy)) {
+    issues.push(`scheduling.policy must be priority, round-robin or deadline (got ${config.scheduling.policy})`);
+  }
+
+  const { critical, high, medium } = config.urgencyThresholds;
+  if (!(critical <= high && high <= medium)) {
+    issues.push('urgencyThresholds must satisfy critical <= high <= medium');
+  }
+
+  for (const [key, model] of Object.entries({
+    claudeModel: config.claudeModel,
+    'modelRouting.simple': config.modelRouting.simple,
+    'modelRouting.medium': config.modelRouting.medium,
+    'modelRouting.complex': config.modelRouting.complex,
+  })) {
+    if (!model.trim()) {
+      issues.push(`${key} must not be empty`);
+    }
+  }
+  try {
+    new URL(config.hutchMemApiUrl);
+  } catch {
+    issues.push(`hutchMemApiUrl is not a URL (got ${config.hutchMemApiUrl})`);
+  }
+
+  return issues;
+}
+
+/**
+ * Get the full config object
+ *
+ * Invalid settings fall back to their defaults here; use
+ * assertValidConfig() to refuse to run on them instead.
+ */
+export function getConfig(): AgentConfig {
+  return current.config;
+}
+
+/**
+ * Throw a ConfigError if the current config has problems
+ */
+export function assertValidConfig(): void {
+  if (current.issues.length > 0) {
+    throw new ConfigError(current.issues);
+  }
+}
+
+/**
+ * Re-read .env and config.json
+ *
+ * An invalid reload throws a ConfigError and keeps the previous config.
+ * Returns the names of top-level settings that changed.
+ */
+export function reloadConfig(): string[] {
+  const nextEnv = loadEnvFile();
+  const next = resolveConfig(nextEnv);
+  if (next.issues.length > 0) {
+    throw new ConfigError(next.issues);
+  }
+
+  const previous = current.config;
+  envFile = nextEnv;
+  current = next;
+
+  return (Object.keys(next.config) as Array<keyof AgentConfig>).filter(key =>
+    JSON.stringify(previous[key]) !== JSON.stringify(next.config[key])
+  );
 }
 
 /**
@@ -311,7 +673,7 @@ export function printConfig(): void {
   console.log(`HutchMem: ${config.hutchMemApiUrl}`);
   console.log(`Claude Model: ${config.claudeModel}`);
   console.log(`Max Turns: ${config.maxTurns}`);
-  console.log(`Features: DAG=${config.features.dagScheduler} MultiAgent=${config.features.multiAgent} MemExtract=${config.features.memoryExtraction}`);
+  console.log(`Features: MultiAgent=${config.features.multiAgent} MemExtract=${config.features.memoryExtraction}`);
   console.log('================================');
 }
 
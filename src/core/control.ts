@@ -0,0 +1,153 @@
+/**
+ * Control Queue
+ *
+ * Commands for the running agent - pause, resume, skip, retry, unblock
+ * and inject a task - queued by the status API and applied by the loop
+ * at the start of its next cycle, so nothing changes under a running
+ * session. A command aimed at a task that is running stays queued until
+ * the task's attempt has finished.
+ *
+ * Applied and rejected commands are kept (the most recent ones) with
+ * what the loop did about them.
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+import { CONTROL_QUEUE_FILE } from './config.js';
+
+/** Settled commands kept for GET /control */
+const MAX_SETTLED_COMMANDS = 50;
+
+export type ControlAction = 'pause' | 'resume' | 'skip' | 'retry' | 'unblock' | 'inject';
+
+/**
+ * An ad-hoc task added to a goal at runtime
+ */
+export interface InjectedTask {
+  /** Derived from the name if omitted */
+  id?: string;
+  name: string;
+  description?: string;
+  dependencies?: string[];
+  /** Lower runs first among ready tasks (default 5) */
+  priority?: number;
+}
+
+export interface ControlCommand {
+  id: string;
+  action: ControlAction;
+  /** skip, retry, unblock */
+  taskId?: string;
+  /** inject */
+  goalId?: string;
+  task?: InjectedTask;
+  reason?: string;
+  /** Where the command came from (api, cli) */
+  by: string;
+  status: 'queued' | 'applied' | 'rejected';
+  queuedAt: string;
+  settledAt?: string;
+  /** What the loop did, or why it refused */
+  result?: string;
+}
+
+/**
+ * File-backed queue shared by the status API and the loop. Every call
+ * re-reads the file so commands queued elsewhere are seen.
+ */
+export class ControlQueue {
+  private file: string;
+
+  constructor(file: string = CONTROL_QUEUE_FILE) {
+    this.file = file;
+  }
+
+  list(status?: ControlCommand['status']): ControlCommand[] {
+    const all = this.load();
+    return status ? all.filter(c => c.status === status) : all;
+  }
+
+  get(id: string): ControlCommand | undefined {
+    return this.load().find(c => c.id === id);
+  }
+
+  /**
+   * Queue a command for the loop
+   */
+  enqueue(command: Omit<ControlCommand, 'id' | 'status' | 'queuedAt'>): ControlCommand {
+    const commands = this.load();
+    const queued: ControlCommand = {
+      ...command,
+      id: `ctl-${randomBytes(3).toString('hex')}`,
+      status: 'queued',
+      queuedAt: new Date().toISOString(),
+    };
+
+    commands.push(queued);
+    this.save(commands);
+    return queued;
+  }
+
+  /**
+   * Record what the loop did with a command
+   */
+  settle(id: string, status: 'applied' | 'rejected', result: string): void {
+    const commands = this.load();
+    const command = commands.find(c => c.id === id);
+    if (!command || command.status !== 'queued') return;
+
+    command.status = status;
+    command.result = result;
+    command.settledAt = new Date().toISOString();
+    this.save(commands);
+  }
+
+  private load(): ControlCommand[] {
+    try {
+      if (existsSync(this.file)) {
+        return JSON.parse(readFileSync(this.file, 'utf-8')) as ControlCommand[];
+      }
+    } catch (err) {
+      console.log(`[Control] Failed to load: ${(err as Error).message}`);
+    }
+    return [];
+  }
+
+  private save(commands: ControlCommand[]): void {
+    const settled = commands.filter(c => c.status !== 'queued');
+    const dropped = new Set(settled.slice(0, Math.max(0, settled.length - MAX_SETTLED_COMMANDS)));
+
+    mkdirSync(dirname(this.file), { recursive: true });
+    writeFileSync(this.file, JSON.stringify(commands.filter(c => !dropped.has(c)), null, 2));
+  }
+}
+
+/**
+ * Turn a request body into an InjectedTask, or an error message
+ */
+export function parseInjectedTask(input: Record<string, unknown>): InjectedTask | string {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) return 'name is required';
+
+  if (input.id !== undefined && (typeof input.id !== 'string' || !/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(input.id))) {
+    return 'id must start with a letter or digit and use only letters, digits, ".", "_" and "-"';
+  }
+  if (input.description !== undefined && typeof input.description !== 'string') {
+    return 'description must be a string';
+  }
+  if (input.dependencies !== undefined && (!Array.isArray(input.dependencies) || input.dependencies.some(d => typeof d !== 'string'))) {
+    return 'dependencies must be a list of task ids';
+  }
+  if (input.priority !== undefined && typeof input.priority !== 'number') {
+    return 'priority must be a number';
+  }
+
+  return {
+    id: input.id as string | undefined,
+    name,
+    description: input.description as string | undefined,
+    dependencies: input.dependencies as string[] | undefined,
+    priority: input.priority as number | undefined,
+  };
+}
@@ -1,46 +1,25 @@
 /**
  * Single Agent Cycle
  *
- * Runs one iteration of the agent using Claude Code CLI.
- * HutchMem hooks automatically handle:
- * - Context injection (SessionStart)
- * - Action recording (PostToolUse)
- * - Session summary (Stop)
+ * Runs one iteration of the agent through an Executor backend
+ * (Claude Code CLI by default) and turns the session into a CycleResult.
  */
 
-import { spawn } from 'child_process';
-import { existsSync, readFileSync, mkdirSync } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
-import { Goal, Task, Scheduler } from '../scheduler/scheduler.js';
+import { DAGGoal, DAGTask } from '../scheduler/dag-scheduler.js';
 import { getSystemPrompt } from '../prompts/system.js';
-
-/**
- * Load environment variables from .hutch-agent/.env
- */
-function loadEnvFile(): Record<string, string> {
-  const envPath = join(homedir(), '.hutch-agent', '.env');
-  const env: Record<string, string> = {};
-
-  if (existsSync(envPath)) {
-    const content = readFileSync(envPath, 'utf-8');
-    for (const line of content.split('\n')) {
-      const trimmed = line.trim();
-      if (trimmed && !trimmed.startsWith('#')) {
-        const [key, ...valueParts] = trimmed.split('=');
-        if (key && valueParts.length > 0) {
-          env[key] = valueParts.join('=');
-        }
-      }
-    }
-  }
-
-  return env;
-}
+import {
+  TerminationResult,
+  detectLegacyTermination,
+  getTerminationInstructions,
+} from '../tools/termination.js';
+import { ClaudeCodeExecutor } from '../executors/claude-code.js';
+import { getConfig } from './config.js';
+import { resolveSandbox, SandboxProfile } from './sandbox.js';
+import type { PlanChange } from '../scheduler/goal-editor.js';
 
 interface CycleInput {
-  goal: Goal;
-  task: Task | null;
+  goal: DAGGoal;
+  task: DAGTask | null;
   state: {
     cycleCount: number;
     recentActions: Array<{
@@ -48,110 +27,191 @@ interface CycleInput {
       outcome: 'success' | 'failure';
     }>;
   };
-  scheduler: Scheduler;
   customPrompt?: string;  // Optional custom prompt from planner
+  cwd?: string;           // Overrides goal.workingDirectory (e.g. a task worktree)
+  resumeSessionId?: string;  // Continue this Claude session instead of starting fresh
+  model?: string;            // Chosen by the model router; defaults to the goal/config model
+  executor?: Executor;       // Defaults to Claude Code
 }
 
-interface CycleResult {
+/**
+ * Token usage and cost reported by the Claude session
+ */
+export interface CycleUsage {
+  /** Uncached input + cache writes */
+  tokensInput: number;
+  tokensOutput: number;
+  /** Context replayed from the prompt cache */
+  tokensCacheRead: number;
+  /** total_cost_usd from the result event, if the session reached one */
+  costUsd?: number;
+  numTurns?: number;
+  /** Every tool invocation, in order (MCP prefix stripped) */
+  toolsUsed: string[];
+}
+
+export interface CycleResult {
   action: string;
   success: boolean;
   error?: string;
   output?: string;
+  /** How the session ended the task (tool call, or legacy text fallback) */
+  termination?: TerminationResult;
+  usage?: CycleUsage;
+  /** Claude session the cycle ran in */
+  sessionId?: string;
+  /** Session exited cleanly without a termination call (e.g. ran out of turns) */
+  incomplete?: boolean;
+  /** What the sandbox refused (network, writes outside it) */
+  sandboxViolations?: string[];
+  /** update_plan calls, in order (applied after the session) */
+  planChanges?: PlanChange[];
 }
 
 /**
- * Check if HutchMem worker is healthy
+ * What an executor is asked to run
  */
-async function checkHutchMemHealth(): Promise<boolean> {
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 3000);
+export interface ExecutorRequest {
+  prompt: string;
+  cwd: string;
+  model: string;
+  maxTurns: number;
+  /** Hard limit on the whole session */
+  maxCycleTimeMs: number;
+  /** Give up after this long without output */
+  stuckTimeoutMs: number;
+  resumeSessionId?: string;
+  /** Run confined to the goal's sandbox profile */
+  sandbox?: SandboxProfile;
+  /** Task the session works on (labels its tool events) */
+  taskId?: string;
+}
 
-    const response = await fetch('http://127.0.0.1:37777/health', {
-      signal: controller.signal,
-    });
-    clearTimeout(timeout);
+/**
+ * What an executor reports back about the session
+ */
+export interface ExecutorResult {
+  success: boolean;
+  output: string;
+  error?: string;
+  termination?: TerminationResult;
+  usage: CycleUsage;
+  sessionId?: string;
+  sandboxViolations?: string[];
+  planChanges?: PlanChange[];
+}
 
-    if (response.ok) {
-      const data = await response.json().catch(() => ({})) as { uptime?: string };
-      console.log(`[Cycle] ✓ HutchMem healthy (uptime: ${data.uptime || 'unknown'})`);
-      return true;
-    }
-    console.log(`[Cycle] ⚠️ HutchMem returned ${response.status}`);
-    return false;
-  } catch (err: any) {
-    // Not critical - agent can work without memory
-    console.log(`[Cycle] ⚠️ HutchMem not available (${err.message?.slice(0, 50) || 'timeout'})`);
-    return false;
-  }
+/**
+ * Backend that runs a prompt as an agent session (Claude Code, a
+ * scripted replay, another CLI agent, ...)
+ */
+export interface Executor {
+  readonly name: string;
+  run(request: ExecutorRequest): Promise<ExecutorResult>;
 }
 
+let defaultExecutor: Executor | null = null;
+
 /**
- * Ensure HutchMem plugin symlinks exist
+ * Executor used when a cycle doesn't name one
  */
-function ensureHutchMemSymlinks(): void {
-  const pluginDir = join(homedir(), '.claude', 'plugins', 'marketplaces', 'thedotmack');
-  const sourceDir = join(homedir(), 'hutch-mem');
-
-  if (!existsSync(pluginDir)) {
-    console.log(`[Cycle] Creating HutchMem plugin symlink directory: ${pluginDir}`);
-    try {
-      mkdirSync(pluginDir, { recursive: true });
-      // The actual symlinks should be created during setup
-      console.log(`[Cycle] ⚠️ HutchMem plugin directory created but symlinks may need manual setup`);
-    } catch (err: any) {
-      console.log(`[Cycle] ⚠️ Could not create plugin directory: ${err.message}`);
-    }
+export function getDefaultExecutor(): Executor {
+  if (!defaultExecutor) {
+    defaultExecutor = new ClaudeCodeExecutor();
   }
+  return defaultExecutor;
 }
 
+/** Claude's error when a --resume session no longer exists */
+const MISSING_SESSION_PATTERN = /No conversation found/i;
+
 /**
- * Run a single cycle using Claude Code CLI
+ * Run a single cycle through an executor
  *
- * This spawns `claude` with a prompt that includes:
+ * The executor runs a session with a prompt that includes:
  * - Current goal and task
  * - Instructions for the agent
  *
- * HutchMem hooks handle memory automatically.
+ * Task status is not updated here - the caller records the result
+ * with the scheduler.
  */
 export async function runCycle(input: CycleInput): Promise<CycleResult> {
-  const { goal, task, state, scheduler, customPrompt } = input;
-
-  // Ensure plugin symlinks exist (one-time setup)
-  ensureHutchMemSymlinks();
-
-  // Pre-cycle health check (non-blocking)
-  const hutchMemHealthy = await checkHutchMemHealth();
+  const { goal, task, state, customPrompt, cwd, resumeSessionId, model } = input;
+  const executor = input.executor || getDefaultExecutor();
 
   // Use custom prompt from planner if provided, otherwise build default
   const prompt = customPrompt || buildCyclePrompt(goal, task, state);
 
   try {
-    console.log(`[Cycle] Starting task: ${task?.name || 'no specific task'}`);
+    console.log(`[Cycle] Starting task: ${task?.name || 'no specific task'} (${executor.name})`);
     const startTime = Date.now();
 
-    // Run claude code with the prompt
-    const result = await runClaudeCode(prompt, {
-      cwd: goal.workingDirectory || process.cwd(),
-      maxTurns: 50,
+    // Goal "execution" settings override the global config
+    const config = getConfig();
+    const sessionCwd = cwd || goal.workingDirectory || process.cwd();
+    const options = {
+      cwd: sessionCwd,
+      model: model || goal.execution?.model || config.claudeModel,
+      maxTurns: goal.execution?.maxTurns ?? config.maxTurns,
+      maxCycleTimeMs: goal.execution?.maxCycleTimeMs ?? config.maxCycleTimeMs,
+      stuckTimeoutMs: goal.execution?.stuckTimeoutMs ?? config.stuckTimeoutMs,
+      sandbox: resolveSandbox(goal, sessionCwd),
+      taskId: task?.id,
+    };
+
+    // Run the session, continuing the task's earlier session if we have one
+    let result = await executor.run({
+      ...options,
+      prompt: resumeSessionId ? `${RESUME_PREAMBLE}\n\n${prompt}` : prompt,
+      resumeSessionId,
     });
 
+    if (resumeSessionId && !result.success && MISSING_SESSION_PATTERN.test(`${result.error} ${result.output}`)) {
+      console.log(`[Cycle] Session ${resumeSessionId.slice(0, 8)} no longer exists - starting fresh`);
+      result = await executor.run({ ...options, prompt });
+    }
+
     const duration = Math.floor((Date.now() - startTime) / 1000);
     console.log(`[Cycle] Completed in ${duration}s with ${result.success ? 'success' : 'failure'}`);
 
     // Determine what action was taken from output
     const action = extractAction(result.output) || task?.name || 'unknown action';
 
-    // Check if task completed
-    if (task && result.success) {
-      scheduler.markTaskCompleted(goal.id, task.id);
+    // Without a task there is nothing to terminate - a clean exit is success
+    if (!task) {
+      return {
+        action,
+        success: result.success,
+        output: result.output,
+        error: result.error,
+        usage: result.usage,
+        sessionId: result.sessionId,
+        sandboxViolations: result.sandboxViolations,
+        planChanges: result.planChanges,
+      };
+    }
+
+    // Termination tools decide the task status; TASK_COMPLETE text is the fallback
+    const termination = result.termination || legacyTermination(task.id, result.output);
+    let error = result.error;
+
+    if (!termination && result.success) {
+      error = 'Session ended without calling complete_task, block_task, skip_task or request_help';
+    } else if (termination?.type === 'blocked') {
+      error = `Blocked: ${termination.reason}`;
     }
 
     return {
       action,
-      success: result.success,
+      success: result.success && termination?.type === 'complete',
       output: result.output,
-      error: result.error,
+      error,
+      termination,
+      usage: result.usage,
+      sessionId: result.sessionId,
+      incomplete: !termination && result.success,
+      sandboxViolations: result.sandboxViolations,
+      planChanges: result.planChanges,
     };
 
   } catch (err: any) {
@@ -164,12 +224,19 @@ export async function runCycle(input: CycleInput): Promise<CycleResult> {
   }
 }
 
+/**
+ * Prepended when a cycle continues an earlier session for the same task
+ */
+const RESUME_PREAMBLE = `## Continuing This Task
+You already worked on this task earlier in this session. Build on what you did and
+learned above - don't re-explore what you already know. Updated instructions follow.`;
+
 /**
  * Build the prompt for a cycle
  */
 function buildCyclePrompt(
-  goal: Goal,
-  task: Task | null,
+  goal: DAGGoal,
+  task: DAGTask | null,
   state: { cycleCount: number; recentActions: Array<{ action: string; outcome: string }> }
 ): string {
   const systemPrompt = getSystemPrompt();
@@ -189,13 +256,11 @@ ${task?.description || ''}
 - Recent actions: ${state.recentActions.slice(-5).map(a => `${a.action} (${a.outcome})`).join(', ') || 'none'}
 
 ## Instructions
-1. Focus on the current task
+1. Focus on the current task${task ? ` (task_id: ${task.id})` : ''}
 2. Use tools to make progress (Write, Edit, Bash, etc.)
 3. Test your changes when applicable
 4. Commit your work with reasoning in the message
-5. If task is complete, say "TASK_COMPLETE"
-6. If blocked, explain why and say "TASK_BLOCKED"
-
+${task ? getTerminationInstructions() : ''}
 Begin working on the task.
 `;
 
@@ -203,254 +268,19 @@ Begin working on the task.
 }
 
 /**
- * Run Claude Code CLI with a prompt using streaming JSON output
- *
- * Uses --output-format stream-json for real-time visibility into what
- * Claude is doing (tool calls, results, etc.)
+ * Convert legacy TASK_COMPLETE/TASK_BLOCKED text into a termination result
  */
-async function runClaudeCode(
-  prompt: string,
-  options: {
-    cwd?: string;
-    maxTurns?: number;
-  }
-): Promise<{ success: boolean; output: string; error?: string }> {
-  // 15 minutes max - some tasks take time
-  const MAX_CYCLE_TIME = 15 * 60 * 1000;
-  // No activity for 2 minutes = stuck
-  const STUCK_TIMEOUT = 2 * 60 * 1000;
-
-  return new Promise((resolve) => {
-    const cwd = options.cwd || process.cwd();
-    mkdirSync(cwd, { recursive: true });
-
-    const args = [
-      '--print',
-      '--verbose',                       // Required for stream-json
-      '--output-format', 'stream-json',  // Real-time streaming JSON
-      '--include-partial-messages',      // See partial messages as they arrive
-      '--dangerously-skip-permissions',
-      '--model', 'sonnet',
-      '--max-turns', String(options.maxTurns || 50),
-      prompt,
-    ];
-
-    const startTime = Date.now();
-    let lastActivityTime = Date.now();
-    console.log(`[Cycle] Running claude in ${cwd}`);
-    console.log(`[Cycle] Prompt: ${prompt.slice(0, 200)}...`);
-
-    const claude = spawn('claude', args, {
-      cwd,
-      stdio: ['pipe', 'pipe', 'pipe'],
-      shell: false,
-      env: {
-        ...process.env,
-        ...loadEnvFile(),
-      },
-    });
+function legacyTermination(taskId: string, output: string): TerminationResult | undefined {
+  const legacy = detectLegacyTermination(output);
+  const timestamp = new Date().toISOString();
 
-    claude.stdin.end();
-
-    let stdout = '';
-    let stderr = '';
-    let lineBuffer = '';
-    let resolved = false;
-    let stuckCheckInterval: NodeJS.Timeout;
-    let maxTimeoutId: NodeJS.Timeout;
-    let lastTool = '';
-    let toolCount = 0;
-    let resultText = '';  // Accumulate result text
-
-    const cleanup = () => {
-      if (stuckCheckInterval) clearInterval(stuckCheckInterval);
-      if (maxTimeoutId) clearTimeout(maxTimeoutId);
-    };
-
-    const handleResolve = (result: { success: boolean; output: string; error?: string }) => {
-      if (resolved) return;
-      resolved = true;
-      cleanup();
-      resolve(result);
-    };
-
-    // Parse streaming JSON output for real-time visibility
-    claude.stdout.on('data', (data) => {
-      const chunk = data.toString();
-      stdout += chunk;
-      lineBuffer += chunk;
-      lastActivityTime = Date.now();
-
-      // Process complete JSON lines (newline-delimited JSON)
-      const lines = lineBuffer.split('\n');
-      lineBuffer = lines.pop() || '';
-
-      for (const line of lines) {
-        if (!line.trim()) continue;
-
-        try {
-          const event = JSON.parse(line);
-          const elapsed = Math.floor((Date.now() - startTime) / 1000);
-
-          // Handle different event types based on Claude CLI stream-json format
-          switch (event.type) {
-            case 'system':
-              // System events: init, hook_response
-              if (event.subtype === 'init') {
-                console.log(`[Claude ${elapsed}s] 📋 Session started: ${event.session_id?.slice(0, 8)} | Model: ${event.model}`);
-              } else if (event.subtype === 'hook_response') {
-                // Hook fired - check for errors
-                if (event.stderr && event.exit_code !== 0) {
-                  console.log(`[Claude ${elapsed}s] ⚠️ Hook error: ${event.hook_name}`);
-                }
-              }
-              break;
-
-            case 'stream_event':
-              // Real-time streaming events
-              const streamType = event.event?.type;
-              if (streamType === 'content_block_start') {
-                const block = event.event.content_block;
-                if (block?.type === 'tool_use') {
-                  toolCount++;
-                  lastTool = block.name;
-                  console.log(`[Claude ${elapsed}s] 🔧 Tool #${toolCount}: ${lastTool}`);
-                }
-              } else if (streamType === 'content_block_delta') {
-                const delta = event.event.delta;
-                if (delta?.type === 'text_delta' && delta.text) {
-                  resultText += delta.text;
-                  // Log significant text chunks
-                  const text = delta.text.trim();
-                  if (text.includes('TASK_COMPLETE')) {
-                    console.log(`[Claude ${elapsed}s] ✅ TASK_COMPLETE detected`);
-                  } else if (text.includes('TASK_BLOCKED')) {
-                    console.log(`[Claude ${elapsed}s] 🚫 TASK_BLOCKED detected`);
-                  }
-                } else if (delta?.type === 'input_json_delta') {
-                  // Tool input being streamed - activity indicator
-                }
-              } else if (streamType === 'message_start') {
-                // New message starting
-              }
-              break;
-
-            case 'assistant':
-              // Complete assistant message with tool uses
-              if (event.message?.content) {
-                for (const block of event.message.content) {
-                  if (block.type === 'text' && block.text) {
-                    // Don't double-add - this is the complete message
-                    const text = block.text.trim();
-                    if (text.length > 50) {
-                      console.log(`[Claude ${elapsed}s] 💬 ${text.slice(0, 150)}...`);
-                    }
-                  } else if (block.type === 'tool_use') {
-                    // Tool was used
-                    const inputStr = JSON.stringify(block.input || {}).slice(0, 80);
-                    console.log(`[Claude ${elapsed}s] 🔧 ${block.name}: ${inputStr}`);
-                  }
-                }
-              }
-              break;
-
-            case 'user':
-              // Tool results coming back
-              if (event.message?.content) {
-                for (const block of event.message.content) {
-                  if (block.type === 'tool_result') {
-                    const success = !block.is_error;
-                    const preview = (block.content || '').toString().slice(0, 60);
-                    console.log(`[Claude ${elapsed}s] ${success ? '✓' : '✗'} Result: ${preview}...`);
-                  }
-                }
-              }
-              break;
-
-            case 'result':
-              // Final result
-              const status = event.subtype === 'success' ? '✅' : '❌';
-              console.log(`[Claude ${elapsed}s] ${status} Done: ${event.subtype} (${event.num_turns} turns, ${event.duration_ms}ms)`);
-              if (event.result) {
-                resultText = event.result;
-              }
-              break;
-
-            case 'error':
-              console.log(`[Claude ${elapsed}s] ❌ Error: ${event.error?.message || JSON.stringify(event).slice(0, 100)}`);
-              break;
-          }
-        } catch (e) {
-          // Not valid JSON - might be raw output
-          if (line.trim().length > 20) {
-            console.log(`[Claude] Raw: ${line.slice(0, 100)}`);
-          }
-        }
-      }
-    });
-
-    claude.stderr.on('data', (data) => {
-      const chunk = data.toString();
-      stderr += chunk;
-      lastActivityTime = Date.now();
-      if (chunk.trim()) {
-        console.log(`[Claude:err] ${chunk.trim().slice(0, 200)}`);
-      }
-    });
-
-    claude.on('close', (code) => {
-      const duration = Math.floor((Date.now() - startTime) / 1000);
-      console.log(`[Cycle] Claude exited with code ${code} after ${duration}s (${toolCount} tools used)`);
-
-      handleResolve({
-        success: code === 0,
-        output: resultText || stdout,
-        error: code !== 0 ? stderr || `Exit code: ${code}` : undefined,
-      });
-    });
-
-    claude.on('error', (err) => {
-      console.log(`[Cycle] Claude spawn error: ${err.message}`);
-      handleResolve({
-        success: false,
-        output: '',
-        error: err.message,
-      });
-    });
-
-    // Stuck detection: no activity for 2 minutes
-    stuckCheckInterval = setInterval(() => {
-      const timeSinceActivity = Date.now() - lastActivityTime;
-      const elapsed = Math.floor((Date.now() - startTime) / 1000);
-
-      if (timeSinceActivity > STUCK_TIMEOUT) {
-        console.log(`[Cycle] ⚠️ STUCK: No activity for ${Math.floor(timeSinceActivity / 1000)}s`);
-        console.log(`[Cycle] Last tool: ${lastTool || 'none'}, Tools used: ${toolCount}`);
-        claude.kill('SIGTERM');
-        handleResolve({
-          success: false,
-          output: resultText || stdout,
-          error: `Stuck - no activity for ${STUCK_TIMEOUT / 1000}s`,
-        });
-      } else {
-        console.log(`[Cycle] ⏳ ${elapsed}s | Tools: ${toolCount} | Last: ${lastTool || 'starting'}`);
-      }
-    }, 30000);
-
-    // Hard timeout
-    maxTimeoutId = setTimeout(() => {
-      if (!resolved) {
-        const elapsed = Math.floor((Date.now() - startTime) / 1000);
-        console.log(`[Cycle] ⏰ Timeout after ${elapsed}s`);
-        claude.kill('SIGTERM');
-        handleResolve({
-          success: false,
-          output: resultText || stdout,
-          error: `Timeout (${MAX_CYCLE_TIME / 1000}s)`,
-        });
-      }
-    }, MAX_CYCLE_TIME);
-  });
+  if (legacy.type === 'complete') {
+    return { type: 'complete', taskId, summary: legacy.text || 'TASK_COMPLETE', artifacts: [], timestamp };
+  }
+  if (legacy.type === 'blocked') {
+    return { type: 'blocked', taskId, reason: legacy.text || 'TASK_BLOCKED', blockers: [], timestamp };
+  }
+  return undefined;
 }
 
 /**
@@ -0,0 +1,150 @@
+/**
+ * Agent Event Bus
+ *
+ * Typed, in-process stream of what the agent is doing: cycles, lifecycle
+ * phases, tool calls and results, reflections, circuit breaker trips and
+ * log lines. The status API serves it as Server-Sent Events on /events.
+ *
+ * The most recent events (EVENT_BUFFER_SIZE) are kept in a ring buffer so
+ * a client reconnecting with Last-Event-ID gets what it missed. Event ids
+ * are `<boot>-<seq>`; an id from an earlier process replays the buffer.
+ */
+
+import { EVENT_BUFFER_SIZE } from './config.js';
+
+/**
+ * Payload of each event type
+ */
+export interface AgentEventMap {
+  cycle_start: { cycle: number; goalId: string; goalName: string; taskIds: string[] };
+  cycle_end: {
+    cycle: number;
+    goalId: string;
+    durationMs: number;
+    tasks: Array<{ taskId: string | null; success: boolean }>;
+    /** Set when the cycle died with an error */
+    error?: string;
+  };
+  phase: { from: string; to: string; goalId?: string; taskId?: string };
+  tool_use: { taskId?: string; tool: string; input: unknown };
+  tool_result: { taskId?: string; success: boolean; preview: string };
+  reflection: {
+    taskId?: string;
+    outcome: 'success' | 'failure' | 'partial';
+    summary: string;
+    keyInsight?: string;
+    shouldRetry: boolean;
+  };
+  breaker_trip: { level: 'soft' | 'hard'; reason: string; message: string; taskId?: string };
+  log: { level: string; message: string };
+}
+
+export type AgentEventType = keyof AgentEventMap;
+
+export interface AgentEvent<T extends AgentEventType = AgentEventType> {
+  id: string;
+  type: T;
+  at: string;
+  data: AgentEventMap[T];
+}
+
+export type AgentEventListener = (event: AgentEvent) => void;
+
+export class EventBus {
+  private boot = Date.now().toString(36);
+  private ring: Array<AgentEvent | undefined>;
+  private nextSeq = 1;
+  private listeners = new Set<AgentEventListener>();
+
+  constructor(private capacity: number = EVENT_BUFFER_SIZE) {
+    this.ring = new Array(Math.max(1, capacity));
+  }
+
+  /**
+   * Record an event and hand it to every subscriber
+   */
+  emit<T extends AgentEventType>(type: T, data: AgentEventMap[T]): AgentEvent<T> {
+    const seq = this.nextSeq++;
+    const event: AgentEvent<T> = { id: `${this.boot}-${seq}`, type, at: new Date().toISOString(), data };
+    this.ring[(seq - 1) % this.ring.length] = event;
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch {
+        // A broken subscriber must not stop the loop
+      }
+    }
+    return event;
+  }
+
+  /**
+   * Receive every new event; returns the unsubscribe function
+   */
+  subscribe(listener: AgentEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Buffered events after `lastEventId`, or all of them
+   */
+  since(lastEventId?: string | null): AgentEvent[] {
+    const oldest = Math.max(1, this.nextSeq - this.ring.length);
+    let from = oldest;
+
+    const [boot, seq] = (lastEventId || '').split('-');
+    const last = Number(seq);
+    if (boot === this.boot && Number.isInteger(last) && last < this.nextSeq) {
+      from = Math.max(last + 1, oldest);
+    }
+
+    const events: AgentEvent[] = [];
+    for (let s = from; s < this.nextSeq; s++) {
+      events.push(this.ring[(s - 1) % this.ring.length]!);
+    }
+    return events;
+  }
+}
+
+let bus: EventBus | null = null;
+
+/**
+ * The process-wide event bus
+ */
+export function getEventBus(): EventBus {
+  if (!bus) {
+    bus = new EventBus();
+  }
+  return bus;
+}
+
+/**
+ * One-line rendering for terminals (`nexus logs --events`)
+ */
+export function formatEvent(event: AgentEvent): string {
+  const time = event.at.slice(11, 19);
+  const d = event.data as any;
+  const task = d.taskId ? ` [${d.taskId}]` : '';
+
+  switch (event.type) {
+    case 'cycle_start':
+      return `${time} ▶ cycle ${d.cycle} ${d.goalName}${d.taskIds.length ? `: ${d.taskIds.join(', ')}` : ''}`;
+    case 'cycle_end':
+      return `${time} ■ cycle ${d.cycle} ${d.error ? `error: ${d.error}` : d.tasks.map((t: any) => `${t.taskId || 'explore'} ${t.success ? '✓' : '✗'}`).join(', ')} (${Math.round(d.durationMs / 1000)}s)`;
+    case 'phase':
+      return `${time} · ${d.from} → ${d.to}`;
+    case 'tool_use':
+      return `${time} 🔧${task} ${d.tool} ${JSON.stringify(d.input ?? {}).slice(0, 80)}`;
+    case 'tool_result':
+      return `${time} ${d.success ? '✓' : '✗'}${task} ${d.preview}`;
+    case 'reflection':
+      return `${time} 💭${task} ${d.outcome}: ${d.summary}`;
+    case 'breaker_trip':
+      return `${time} ⚡${task} ${d.level} trip (${d.reason}): ${d.message}`;
+    case 'log':
+      return `${time} [${d.level}] ${d.message}`;
+    default:
+      return `${time} ${event.type} ${JSON.stringify(d)}`;
+  }
+}
@@ -6,11 +6,7 @@
  */
 
 import { appendFileSync } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
-
-const AGENT_DIR = join(homedir(), '.hutch-agent');
-const LOG_FILE = process.env.AGENT_LOG_FILE || join(AGENT_DIR, 'agent.log');
+import { getConfig, AgentConfig, LOG_FILE } from './config.js';
 
 export interface HealthMetrics {
   // Vitals
@@ -47,17 +43,21 @@ export interface HeartbeatConfig {
     high: number;
     medium: number;
   };
+  cycleDelays: AgentConfig['cycleDelays'];
 }
 
-const DEFAULT_CONFIG: HeartbeatConfig = {
-  intervalMs: 30000,
-  failureThreshold: 3,
-  urgencyThresholds: {
-    critical: 6,   // < 6 hours = critical
-    high: 24,      // < 24 hours = high
-    medium: 72,    // < 72 hours = medium
-  },
-};
+/**
+ * Heartbeat settings from the agent config
+ */
+function defaultConfig(): HeartbeatConfig {
+  const config = getConfig();
+  return {
+    intervalMs: config.heartbeatIntervalMs,
+    failureThreshold: config.failureThreshold,
+    urgencyThresholds: config.urgencyThresholds,
+    cycleDelays: config.cycleDelays,
+  };
+}
 
 export class Heartbeat {
   private config: HeartbeatConfig;
@@ -74,10 +74,25 @@ export class Heartbeat {
   private onAlert?: (alert: string, metrics: HealthMetrics) => void;
 
   constructor(config: Partial<HeartbeatConfig> = {}) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config = { ...defaultConfig(), ...config };
     this.startTime = Date.now();
   }
 
+  /**
+   * Apply new settings (e.g. after a config reload)
+   */
+  configure(config: Partial<HeartbeatConfig>): void {
+    const previousInterval = this.config.intervalMs;
+    this.config = { ...this.config, ...config };
+
+    if (this.intervalId && this.config.intervalMs !== previousInterval) {
+      clearInterval(this.intervalId);
+      this.intervalId = setInterval(() => {
+        this.pulse();
+      }, this.config.intervalMs);
+    }
+  }
+
   /**
    * Start the heartbeat
    */
@@ -259,17 +274,18 @@ export class Heartbeat {
    */
   getRecommendedDelay(): number {
     const metrics = this.getMetrics();
+    const delays = this.config.cycleDelays;
 
     // Speed up if urgent
-    if (metrics.urgencyLevel === 'critical') return 2000;   // 2s
-    if (metrics.urgencyLevel === 'high') return 5000;       // 5s
+    if (metrics.urgencyLevel === 'critical') return delays.critical;
+    if (metrics.urgencyLevel === 'high') return delays.high;
 
-    // Slow down if failing
-    if (metrics.consecutiveFailures >= 3) return 30000;     // 30s
-    if (metrics.consecutiveFailures >= 1) return 15000;     // 15s
+    // Slow down if failing (half the failure delay after a single miss)
+    if (metrics.consecutiveFailures >= this.config.failureThreshold) return delays.failure;
+    if (metrics.consecutiveFailures >= 1) return Math.round(delays.failure / 2);
 
     // Normal pace
-    if (metrics.urgencyLevel === 'medium') return 8000;     // 8s
-    return 10000;                                           // 10s default
+    if (metrics.urgencyLevel === 'medium') return delays.medium;
+    return delays.normal;
   }
 }
@@ -0,0 +1,128 @@
+/**
+ * Help Inbox
+ *
+ * Questions the agent asks through request_help, kept until a human
+ * answers them with `nexus reply <id> "<answer>"`.
+ *
+ * While a question is open its task stays blocked and the loop works on
+ * other ready tasks. Once answered the task is unblocked, and every later
+ * plan for it carries the question and answer in its prompt.
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+import { INBOX_FILE } from './config.js';
+
+export interface HelpRequest {
+  id: string;
+  goalId: string;
+  goalName: string;
+  taskId: string;
+  taskName: string;
+  question: string;
+  /** What the agent tried or found, from request_help */
+  context?: string;
+  status: 'open' | 'answered';
+  askedAt: string;
+  answer?: string;
+  answeredAt?: string;
+  /** Where the answer came from (cli, api) */
+  answeredBy?: string;
+}
+
+/**
+ * Block reason that marks a task as waiting on a reply
+ */
+export function awaitingReplyReason(request: HelpRequest): string {
+  return `Help requested (${request.id}): ${request.question}`;
+}
+
+/**
+ * File-backed inbox shared by the loop and CLI. Every call re-reads the
+ * file so replies made elsewhere are seen.
+ */
+export class HelpInbox {
+  private file: string;
+
+  constructor(file: string = INBOX_FILE) {
+    this.file = file;
+  }
+
+  list(status?: HelpRequest['status']): HelpRequest[] {
+    const all = this.load();
+    return status ? all.filter(r => r.status === status) : all;
+  }
+
+  get(id: string): HelpRequest | undefined {
+    return this.load().find(r => r.id === id);
+  }
+
+  /**
+   * Record a question from the agent
+   */
+  ask(request: Omit<HelpRequest, 'id' | 'status' | 'askedAt'>): HelpRequest {
+    const requests = this.load();
+    const created: HelpRequest = {
+      ...request,
+      id: `q-${randomBytes(3).toString('hex')}`,
+      status: 'open',
+      askedAt: new Date().toISOString(),
+    };
+
+    requests.push(created);
+    this.save(requests);
+    return created;
+  }
+
+  /**
+   * Answer an open question
+   */
+  reply(id: string, answer: string, by: string): HelpRequest {
+    const requests = this.load();
+    const request = requests.find(r => r.id === id);
+
+    if (!request) {
+      throw new Error(`No question ${id}`);
+    }
+    if (request.status !== 'open') {
+      throw new Error(`Question ${id} was already answered`);
+    }
+    if (!answer.trim()) {
+      throw new Error('Answer must not be empty');
+    }
+
+    request.status = 'answered';
+    request.answer = answer.trim();
+    request.answeredAt = new Date().toISOString();
+    request.answeredBy = by;
+
+    this.save(requests);
+    return request;
+  }
+
+  /**
+   * Answered questions for a task, oldest first (for the planner)
+   */
+  getAnswers(taskId: string): Array<{ question: string; answer: string }> {
+    return this.load()
+      .filter(r => r.taskId === taskId && r.status === 'answered')
+      .map(r => ({ question: r.question, answer: r.answer! }));
+  }
+
+  private load(): HelpRequest[] {
+    try {
+      if (existsSync(this.file)) {
+        return JSON.parse(readFileSync(this.file, 'utf-8')) as HelpRequest[];
+      }
+    } catch (err) {
+      console.log(`[Inbox] Failed to load: ${(err as Error).message}`);
+    }
+    return [];
+  }
+
+  private save(requests: HelpRequest[]): void {
+    mkdirSync(dirname(this.file), { recursive: true });
+    writeFileSync(this.file, JSON.stringify(requests, null, 2));
+  }
+}
@@ -8,31 +8,57 @@
  * - REFLECTOR: Outcome analysis, learning, strategy adjustment
  */
 
-import { existsSync, writeFileSync, mkdirSync, appendFileSync } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
-import { Scheduler } from '../scheduler/scheduler.js';
+import { existsSync, readFileSync, writeFileSync, mkdirSync, appendFileSync } from 'fs';
+import { DAGScheduler, DAGGoal, DAGTask, resolveGoalsDir, hasTaskChanges, describeReconciliation } from '../scheduler/dag-scheduler.js';
+import { GoalValidationError, validateGoalFile, validateGoalsDir } from '../scheduler/goal-schema.js';
+import { GoalEditor } from '../scheduler/goal-editor.js';
+import { GoalWatcher } from '../scheduler/goal-watcher.js';
 import { Heartbeat, HealthMetrics } from './heartbeat.js';
 import { Planner, Plan } from './planner.js';
 import { Reflector, Reflection } from './reflector.js';
-import { runCycle } from './cycle.js';
-
-const AGENT_DIR = join(homedir(), '.hutch-agent');
-const STATE_FILE = join(AGENT_DIR, 'state.json');
-const LOG_FILE = process.env.AGENT_LOG_FILE || join(AGENT_DIR, 'agent.log');
+import { runCycle, CycleResult, CycleUsage, Executor, getDefaultExecutor } from './cycle.js';
+import { WorktreeManager, Worktree } from './worktree.js';
+import { CircuitBreaker, TripEvent } from './circuit-breaker.js';
+import { StateMachine, StateContext } from './state-machine.js';
+import { getTelemetry, classifyError } from './telemetry.js';
+import { BudgetManager, formatBudgetLine } from './budget.js';
+import { SessionStore } from './sessions.js';
+import { ModelRouter, ModelChoice } from './model-router.js';
+import { ApprovalStore, approvalReason, awaitingApprovalReason } from './approvals.js';
+import { HelpInbox, awaitingReplyReason } from './inbox.js';
+import { Verifier, VerificationResult, formatFailures } from './verifier.js';
+import { SnapshotManager, Snapshot, shouldRollback } from './snapshots.js';
+import { ControlQueue, ControlCommand } from './control.js';
+import { resolveSandbox } from './sandbox.js';
+import { getEventBus } from './events.js';
+import { startStatusServer } from '../api/status.js';
+import {
+  AGENT_DIR,
+  STATE_FILE,
+  LOG_FILE,
+  CHECKPOINT_INTERVAL_MS,
+  MAX_CYCLE_MS,
+  STATUS_API_ENABLED,
+  getConfig,
+  assertValidConfig,
+  reloadConfig,
+} from './config.js';
+
+/** How often a sleeping agent re-checks its budgets */
+const BUDGET_RECHECK_MS = 15 * 60 * 1000;
 
+/**
+ * Work history and health carried across cycles.
+ *
+ * Lifecycle (phase, identity, current goal/task, cycle count) lives in
+ * the StateMachine; state.json is a snapshot of both.
+ */
 interface AgentState {
-  // Identity
-  agentId: string;
-  startedAt: string;
-
-  // Current work
-  currentGoal?: string;
-  currentTask?: string;
   currentApproach?: string;
+  /** Set by a pause command; no new cycles start until resumed */
+  paused?: { since: string; by: string; reason?: string };
 
   // Metrics
-  cycleCount: number;
   lastCycleAt?: string;
   progress: Record<string, number>;
 
@@ -54,14 +80,83 @@ interface AgentState {
   };
 }
 
+/**
+ * Options for running the loop (mainly for tests and embedding)
+ */
+export interface RunLoopOptions {
+  /** Backend that runs each cycle (default: Claude Code CLI) */
+  executor?: Executor;
+  /** Stop after this many loop iterations instead of running forever */
+  maxCycles?: number;
+  /** Goal directory to load instead of ./goals or GOALS_DIR */
+  goalsDir?: string;
+  /** Fixed wait between iterations, replacing adaptive pacing and back-off */
+  delayMs?: number;
+}
+
+/**
+ * One task's pass through PLAN → ACT → REFLECT
+ */
+interface TaskRun {
+  task: DAGTask | null;
+  /** Separate checkout when the task runs in parallel with others */
+  worktree?: Worktree;
+  /** Previous attempt was cut off mid-execution - pick up partial work */
+  resumed: boolean;
+  /** Directory the session runs in (worktree or goal working directory) */
+  cwd: string;
+  startedAt: number;
+  plan?: Plan;
+  model?: ModelChoice;
+  result?: CycleResult;
+  /** Latest acceptance check results (tasks with checks only) */
+  verification?: VerificationResult;
+  /** Working tree before the session ran (git directories only) */
+  snapshot?: Snapshot;
+  /** Circuit breaker trip caused by this run's outcome */
+  trip?: TripEvent;
+  reflection?: Reflection;
+  durationMs: number;
+}
+
 // Global components
 let state: AgentState;
-let scheduler: Scheduler;
+let sm: StateMachine;
+let scheduler: DAGScheduler;
 let heartbeat: Heartbeat;
 let planner: Planner;
 let reflector: Reflector;
+let breaker: CircuitBreaker;
+let budget: BudgetManager;
+let sessions: SessionStore;
+let router: ModelRouter;
+let approvals: ApprovalStore;
+let inbox: HelpInbox;
+let verifier: Verifier;
+let snapshots: SnapshotManager;
+let goalEditor: GoalEditor;
+let goalWatcher: GoalWatcher;
+let control: ControlQueue;
+let executor: Executor;
+let fixedDelayMs: number | undefined;
+/** Ends the current idle wait early (a goal file changed) */
+let wakeFromIdle: (() => void) | null = null;
+let breakerTaskId: string | null = null;
 let running = true;
 
+/** Tasks interrupted mid-execution by the previous process */
+const resumeTaskIds = new Set<string>();
+
+/** Failed-check reports carried into a task's next planned attempt */
+const failedChecks = new Map<string, string>();
+
+/** Signal handlers, kept so a loop that stops on its own can remove them */
+const signalHandlers: Record<'SIGTERM' | 'SIGINT' | 'SIGHUP', () => void> = {
+  SIGTERM: () => handleShutdown('SIGTERM'),
+  SIGINT: () => handleShutdown('SIGINT'),
+  SIGHUP: () => handleReload(),
+};
+
 /**
  * Log message to file and console
  */
@@ -70,6 +165,7 @@ function log(level: 'INFO' | 'WARN' | 'ERROR' | 'DEBUG' | 'PLAN' | 'REFLECT', me
   const line = `[${timestamp}] [${level}] ${message}\n`;
 
   appendFileSync(LOG_FILE, line);
+  getEventBus().emit('log', { level, message });
 
   if (process.env.NODE_ENV !== 'production') {
     const colors: Record<string, string> = {
@@ -85,10 +181,148 @@ function log(level: 'INFO' | 'WARN' | 'ERROR' | 'DEBUG' | 'PLAN' | 'REFLECT', me
 }
 
 /**
- * Save state to file
+ * Save a snapshot of lifecycle + history for the CLI and status API
  */
 function saveState() {
-  writeFileSync(STATE_FILE, JSON.stringify(state, null, 2));
+  const context = sm.getContext();
+
+  const snapshot = {
+    agentId: context.metadata?.agentId,
+    startedAt: context.metadata?.startedAt,
+    state: sm.getState(),
+    currentGoal: context.goalName,
+    currentTask: context.taskName,
+    cycleCount: context.cycleCount || 0,
+    ...state,
+  };
+
+  writeFileSync(STATE_FILE, JSON.stringify(snapshot, null, 2));
+}
+
+/**
+ * Load history from the previous snapshot if it belongs to the same agent
+ */
+function restoreState(agentId: string): AgentState {
+  const fresh: AgentState = {
+    progress: {},
+    recentActions: [],
+    health: {
+      isHealthy: true,
+      successRate: 100,
+      consecutiveFailures: 0,
+      urgencyLevel: 'low',
+    },
+  };
+
+  if (!existsSync(STATE_FILE)) return fresh;
+
+  try {
+    const previous = JSON.parse(readFileSync(STATE_FILE, 'utf-8'));
+    if (previous.agentId !== agentId) return fresh;
+
+    return {
+      currentApproach: previous.currentApproach,
+      paused: previous.paused,
+      lastCycleAt: previous.lastCycleAt,
+      progress: previous.progress || fresh.progress,
+      recentActions: previous.recentActions || fresh.recentActions,
+      health: previous.health || fresh.health,
+    };
+  } catch {
+    return fresh;
+  }
+}
+
+/**
+ * Bring the lifecycle back to idle from wherever a cycle left it
+ */
+function returnToIdle(reason: string) {
+  const clear: Partial<StateContext> = { taskId: undefined, taskName: undefined };
+
+  if (sm.getState() === 'idle') {
+    sm.updateContext(clear);
+  } else if (sm.canRecover()) {
+    sm.recover('idle');
+    sm.updateContext(clear);
+  } else {
+    sm.transition('idle', clear, reason);
+  }
+}
+
+/**
+ * Recent actions in the shape the planner and cycle expect
+ */
+function recentOutcomes(): Array<{ action: string; outcome: 'success' | 'failure' }> {
+  return state.recentActions.map(a => ({
+    action: a.action,
+    outcome: a.outcome === 'partial' ? 'failure' : a.outcome,
+  }));
+}
+
+/**
+ * Sleep for the given number of milliseconds (or the fixed loop delay)
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, fixedDelayMs ?? ms));
+}
+
+/**
+ * Wait for work to turn up - cut short when a goal file changes
+ */
+function idle(ms: number): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, fixedDelayMs ?? ms);
+    function done() {
+      clearTimeout(timer);
+      wakeFromIdle = null;
+      resolve();
+    }
+    wakeFromIdle = done;
+  });
+}
+
+/**
+ * Sleep through an exhausted budget, then return to idle for a re-check
+ */
+async function sleepForBudget(reason: string, ms: number): Promise<void> {
+  const wait = Math.min(ms, BUDGET_RECHECK_MS);
+  log('WARN', `Budget exhausted (${reason}) - sleeping ${Math.round(wait / 60000)}m`);
+
+  sm.transition('sleeping', undefined, `budget: ${reason}`);
+  await sleep(wait);
+  sm.transition('idle', undefined, 'budget re-check');
+}
+
+/**
+ * Re-read config.json and .env (SIGHUP)
+ *
+ * Components holding their own copy of the settings are updated; the
+ * rest read getConfig() when they need it. Paths need a restart.
+ */
+function handleReload() {
+  try {
+    const changed = reloadConfig();
+    if (changed.length === 0) {
+      log('INFO', 'Config reloaded - no changes');
+      return;
+    }
+
+    const config = getConfig();
+    heartbeat.configure({
+      intervalMs: config.heartbeatIntervalMs,
+      failureThreshold: config.failureThreshold,
+      urgencyThresholds: config.urgencyThresholds,
+      cycleDelays: config.cycleDelays,
+    });
+    breaker.configure(config.circuitBreaker);
+    budget = new BudgetManager();
+    sessions = new SessionStore();
+    router.configure(config.modelRouting, config.claudeModel);
+
+    log('INFO', `Config reloaded - changed: ${changed.join(', ')}`);
+  } catch (err: any) {
+    log('ERROR', `Config reload failed, keeping previous settings: ${err.message}`);
+  }
 }
 
 /**
@@ -101,6 +335,14 @@ function handleShutdown(signal: string) {
   // Stop heartbeat
   heartbeat.stop();
 
+  // Mid-task the checkpoint keeps the active state so the next start resumes it
+  if (sm.canTransition('shutdown')) {
+    sm.transition('shutdown', undefined, signal);
+  } else {
+    log('INFO', `Stopping while ${sm.getState()} - interrupted work resumes on restart`);
+  }
+  sm.stop();
+
   // Save final state
   saveState();
 
@@ -125,39 +367,108 @@ function handleAlert(alert: string, metrics: HealthMetrics) {
 }
 
 /**
- * Main loop - runs forever
+ * Handle circuit breaker trips
+ */
+function handleTrip(event: TripEvent) {
+  getEventBus().emit('breaker_trip', { level: event.level, reason: event.reason, message: event.message, taskId: event.taskId });
+  const level = event.level === 'hard' ? 'ERROR' : 'WARN';
+  log(level, `Circuit breaker ${event.level} trip (${event.reason})${event.taskId ? ` on ${event.taskId}` : ''}: ${event.message}`);
+}
+
+/**
+ * Main loop - runs forever unless `maxCycles` is set
  */
-export async function runLoop() {
+export async function runLoop(options: RunLoopOptions = {}) {
+  // Refuse to run on a bad config.json or env value
+  assertValidConfig();
+
+  // ...or on goal files that don't match the schema
+  const goalChecks = validateGoalsDir(resolveGoalsDir(options.goalsDir));
+  if (goalChecks.some(check => !check.valid)) {
+    throw new GoalValidationError(goalChecks);
+  }
+
   // Ensure directory exists
   mkdirSync(AGENT_DIR, { recursive: true });
 
-  // Initialize state
-  state = {
-    agentId: `nexus-${Date.now()}`,
-    cycleCount: 0,
-    startedAt: new Date().toISOString(),
-    progress: {},
-    recentActions: [],
-    health: {
-      isHealthy: true,
-      successRate: 100,
-      consecutiveFailures: 0,
-      urgencyLevel: 'low',
+  executor = options.executor || getDefaultExecutor();
+  fixedDelayMs = options.delayMs;
+
+  // Restore lifecycle from the last checkpoint
+  sm = new StateMachine({
+    checkpointIntervalMs: CHECKPOINT_INTERVAL_MS,
+    onStateChange: (from, to, context) => {
+      getEventBus().emit('phase', { from, to, goalId: context.goalId, taskId: context.taskId });
+      saveState();
     },
-  };
+  });
+  await sm.initialize();
+
+  const restored = sm.getContext();
+  const interrupted = sm.getInterruptedState();
+  const agentId = (restored.metadata?.agentId as string) || `nexus-${Date.now()}`;
+  const startedAt = (restored.metadata?.startedAt as string) || new Date().toISOString();
+
+  state = restoreState(agentId);
+  sm.updateContext({ metadata: { ...restored.metadata, agentId, startedAt } });
+
+  // Work cut off mid-execution is resumed once; if it was already a
+  // resume, the interruption counts as a failed attempt instead
+  const interruptedIds = interrupted === 'executing' || interrupted === 'verifying'
+    ? (restored.metadata?.taskIds as string[] | undefined) || (restored.taskId ? [restored.taskId] : [])
+    : [];
+  const alreadyResumed = (restored.metadata?.resumedTaskIds as string[] | undefined) || [];
+  const retryIds = interruptedIds.filter(id => alreadyResumed.includes(id));
+
+  // Initialize components - resume any in-flight DAG before loading goal files
+  scheduler = new DAGScheduler();
+  await scheduler.loadState();
+  const recovered = scheduler.recoverInterruptedTasks(retryIds);
+  await scheduler.loadGoals(options.goalsDir);
+
+  // Budgets are checked against recorded spend - without it they never trip
+  budget = new BudgetManager();
+  const budgeted = budget.getLines(scheduler.getGoals());
+  if (budgeted.length > 0 && !getConfig().features.costTracking) {
+    const scopes = [...new Set(budgeted.map(line => line.scope === 'goal' ? `goal ${line.goalId}` : line.scope))];
+    throw new Error(`Budgets are set (${scopes.join(', ')}) but cost tracking is off - set COST_TRACKING_ENABLED=true or remove the budgets`);
+  }
 
-  // Initialize components
-  scheduler = new Scheduler();
-  await scheduler.loadGoals();
+  // Goal files edited from here on are reloaded between cycles
+  goalWatcher = new GoalWatcher(resolveGoalsDir(options.goalsDir));
+  goalWatcher.start(() => wakeFromIdle?.());
 
-  heartbeat = new Heartbeat({
-    intervalMs: 30000,  // 30 seconds
-    failureThreshold: 3,
-  });
+  for (const task of recovered) {
+    if (interruptedIds.includes(task.id) && !retryIds.includes(task.id)) {
+      resumeTaskIds.add(task.id);
+    }
+  }
+
+  heartbeat = new Heartbeat();
 
   planner = new Planner();
   reflector = new Reflector();
 
+  breaker = new CircuitBreaker(getConfig().circuitBreaker);
+  breaker.loadState();
+  breaker.setCallbacks(handleTrip, () => log('INFO', 'Circuit breaker closed'));
+
+  sessions = new SessionStore();
+  router = new ModelRouter();
+  approvals = new ApprovalStore();
+  inbox = new HelpInbox();
+  verifier = new Verifier();
+  snapshots = new SnapshotManager();
+  goalEditor = new GoalEditor();
+  control = new ControlQueue();
+
+  if (STATUS_API_ENABLED) {
+    startStatusServer(undefined, {
+      onControl: () => wakeFromIdle?.(),
+      health: () => heartbeat.getMetrics(),
+    });
+  }
+
   // Start heartbeat
   heartbeat.start(
     (metrics) => {
@@ -172,178 +483,364 @@ export async function runLoop() {
   );
 
   // Setup signal handlers
-  process.on('SIGTERM', () => handleShutdown('SIGTERM'));
-  process.on('SIGINT', () => handleShutdown('SIGINT'));
+  for (const [signal, handler] of Object.entries(signalHandlers)) {
+    process.on(signal, handler);
+  }
 
   // Startup banner
   log('INFO', '═'.repeat(60));
   log('INFO', '  Hutch Agent Starting');
   log('INFO', '  24/7 Autonomous AI Agent powered by HutchMem');
   log('INFO', '═'.repeat(60));
-  log('INFO', `Agent ID: ${state.agentId}`);
+  log('INFO', `Agent ID: ${agentId}`);
+  log('INFO', `Executor: ${executor.name}`);
   log('INFO', `Goals loaded: ${scheduler.getGoalNames().join(', ')}`);
+  log('INFO', `Scheduling: ${getConfig().scheduling.policy}`);
+  for (const line of budget.getLines(scheduler.getGoals())) {
+    log('INFO', `Budget ${formatBudgetLine(line)}`);
+  }
+
+  if (interrupted) {
+    log('WARN', `Previous run stopped while ${interrupted} (cycle ${restored.cycleCount || 0})`);
+    for (const id of resumeTaskIds) {
+      log('INFO', `Resuming interrupted task: ${id}`);
+    }
+    for (const id of retryIds) {
+      log('WARN', `Task ${id} was interrupted again - counting it as a failed attempt`);
+    }
+  }
   log('INFO', '');
 
+  returnToIdle('startup');
+
   // The infinite loop
+  let iterations = 0;
   while (running) {
+    if (options.maxCycles !== undefined && iterations++ >= options.maxCycles) {
+      break;
+    }
+
     const cycleStart = Date.now();
+    let started: { cycle: number; goalId: string } | null = null;
+    const runningTaskIds: string[] = [];
+    const runs: TaskRun[] = [];
+    let worktrees: WorktreeManager | null = null;
 
     try {
-      state.cycleCount++;
-
       // ═══════════════════════════════════════════════════════════════
       // PHASE 1: PERCEIVE - Gather current state and context
       // ═══════════════════════════════════════════════════════════════
 
-      const goal = scheduler.getCurrentGoal();
-      const task = scheduler.getCurrentTask();
-      const metrics = heartbeat.getMetrics({
-        tasksCompleted: goal?.tasks.filter(t => t.status === 'completed').length || 0,
-        tasksTotal: goal?.tasks.length || 1,
-        deadline: goal?.deadline || null,
-      });
+      applyControlCommands();
+
+      if (state.paused) {
+        if (sm.getState() !== 'sleeping') {
+          log('INFO', `Paused by ${state.paused.by}${state.paused.reason ? `: ${state.paused.reason}` : ''}`);
+          sm.transition('sleeping', undefined, 'paused');
+        }
+        await idle(MAX_CYCLE_MS);
+        continue;
+      }
+
+      const exhausted = budget.getExhausted();
+      if (exhausted) {
+        await sleepForBudget(formatBudgetLine(exhausted), budget.msUntilReset());
+        continue;
+      }
+
+      await reloadChangedGoals();
+
+      const goal = scheduler.selectNextGoal(g => !budget.isGoalExhausted(g));
 
       if (!goal) {
+        const overBudget = scheduler.getGoals().filter(g => g.status === 'active' && budget.isGoalExhausted(g));
+        if (overBudget.length > 0) {
+          await sleepForBudget(`goal budget spent: ${overBudget.map(g => g.name).join(', ')}`, BUDGET_RECHECK_MS);
+          continue;
+        }
+
         log('INFO', 'No active goals. Waiting...');
-        await scheduler.waitForNextCycle(60000);
+        await idle(MAX_CYCLE_MS);
+        continue;
+      }
+
+      const cycleCount = (sm.getContext().cycleCount || 0) + 1;
+      sm.transition('planning', { goalId: goal.id, goalName: goal.name, cycleCount });
+
+      applyApprovalDecisions(goal);
+      applyInboxReplies(goal);
+
+      // A hard trip parks the offending task so other ready work can continue
+      // (the task may belong to another goal than the one picked this cycle)
+      if (breaker.shouldBlock()) {
+        const trip = breaker.getLastTrip();
+        const parkedId = trip?.taskId || breakerTaskId;
+        const parked = parkedId ? scheduler.findTask(parkedId) : null;
+        sm.transition('blocked', { taskId: parkedId || undefined }, trip?.message || 'circuit breaker');
+
+        if (parked && parked.task.status !== 'completed' && parked.task.status !== 'skipped') {
+          if (!scheduler.blockTask(parked.task.id, `Circuit breaker: ${trip?.message || 'hard trip'}`)) {
+            // Keep the circuit open rather than let the task run again
+            log('ERROR', `Could not park task ${parked.task.id} - circuit stays open`);
+            await idle(MAX_CYCLE_MS);
+            returnToIdle('circuit open');
+            continue;
+          }
+          log('WARN', `Parked task ${parked.task.id} (${parked.goal.name}) as blocked - needs intervention`);
+        } else {
+          log('WARN', `Circuit breaker tripped but ${parkedId ? `task ${parkedId} is no longer runnable` : 'no task was running'} - nothing to park`);
+        }
+
+        breaker.reset();
+        breakerTaskId = null;
+        sm.transition('planning', undefined, 'circuit reset');
+      }
+
+      const task = scheduler.getNextTask();
+
+      // Tasks exist but none are ready - wait for running work to settle
+      if (!task && goal.tasks.length > 0) {
+        const waiting = [
+          ...approvals.list('pending').filter(a => a.goalId === goal.id).map(a => ({ ...a, kind: 'approval' })),
+          ...inbox.list('open').filter(q => q.goalId === goal.id).map(q => ({ ...q, kind: 'reply' })),
+        ];
+        if (waiting.length > 0) {
+          log('INFO', `Waiting for a human: ${waiting.map(w => `${w.kind} ${w.id} (${w.taskName})`).join(', ')}`);
+          sm.transition('blocked', { taskId: waiting[0].taskId }, 'awaiting human input');
+          await idle(MAX_CYCLE_MS);
+          returnToIdle('human input re-check');
+          continue;
+        }
+
+        log('INFO', `No ready tasks for ${goal.name}. Waiting...`);
+        returnToIdle('no ready tasks');
+        await idle(MAX_CYCLE_MS);
         continue;
       }
 
-      log('INFO', `━━━ Cycle ${state.cycleCount} ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
+      const metrics = heartbeat.getMetrics({
+        tasksCompleted: goal.tasks.filter(t => t.status === 'completed').length,
+        tasksTotal: goal.tasks.length || 1,
+        deadline: goal.deadline || null,
+      });
+
+      log('INFO', `━━━ Cycle ${cycleCount} ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`);
       log('INFO', `Goal: ${goal.name}`);
 
       // Show task progress
       const completedTasks = goal.tasks.filter(t => t.status === 'completed').length;
       const totalTasks = goal.tasks.length;
       log('INFO', `Progress: ${completedTasks}/${totalTasks} tasks (${goal.progress}%)`);
-      log('INFO', `Task: ${task?.name || 'All tasks complete - determining next action...'}`);
 
-      state.currentGoal = goal.name;
-      state.currentTask = task?.name || 'Planning';
+      // Independent ready tasks can run side by side in their own worktrees;
+      // interrupted tasks go first
+      const ready = task ? scheduler.getReadyTasks() : [];
+      let batch = [
+        ...ready.filter(t => resumeTaskIds.has(t.id)),
+        ...ready.filter(t => !resumeTaskIds.has(t.id)),
+      ].slice(0, Math.max(1, getConfig().maxParallelTasks));
+
+      if (batch.length > 1) {
+        const manager = new WorktreeManager(goal.workingDirectory || '');
+        if (goal.workingDirectory && await manager.isGitRepo()) {
+          worktrees = manager;
+        } else {
+          log('WARN', `Parallel execution needs a git working directory - running ${batch[0].name} alone`);
+          batch = batch.slice(0, 1);
+        }
+      }
 
-      // ═══════════════════════════════════════════════════════════════
-      // PHASE 2: PLAN - Create an action plan
-      // ═══════════════════════════════════════════════════════════════
+      const resumed = batch.filter(t => resumeTaskIds.has(t.id)).map(t => t.id);
+      for (const id of resumed) resumeTaskIds.delete(id);
 
-      log('PLAN', 'Creating action plan...');
+      sm.updateContext({
+        taskId: batch[0]?.id,
+        taskName: batch.length > 0 ? batch.map(t => t.name).join(' | ') : 'Planning',
+        metadata: {
+          ...sm.getContext().metadata,
+          taskIds: batch.map(t => t.id),
+          resumedTaskIds: resumed,
+        },
+      });
 
-      const plan = await planner.createPlan({
-        goal,
-        task,
-        metrics,
-        recentActions: state.recentActions.map(a => ({
-          action: a.action,
-          outcome: a.outcome === 'partial' ? 'failure' : a.outcome,
-        })),
+      if (batch.length > 1) {
+        log('INFO', `Tasks (${batch.length} in parallel): ${batch.map(t => t.name).join(', ')}`);
+      } else {
+        log('INFO', `Task: ${task?.name || 'No tasks defined - determining next action...'}`);
+      }
+
+      const cwd = goal.workingDirectory || process.cwd();
+      for (const t of batch) {
+        if (!scheduler.markTaskRunning(t.id)) continue;
+        runningTaskIds.push(t.id);
+        runs.push({ task: t, resumed: resumed.includes(t.id), cwd, startedAt: Date.now(), durationMs: 0 });
+      }
+      if (!task) {
+        runs.push({ task: null, resumed: false, cwd, startedAt: Date.now(), durationMs: 0 });
+      }
+
+      started = { cycle: cycleCount, goalId: goal.id };
+      getEventBus().emit('cycle_start', {
+        ...started,
+        goalName: goal.name,
+        taskIds: runs.flatMap(run => run.task ? [run.task.id] : []),
       });
 
-      log('PLAN', `Approach: ${plan.approach}`);
-      log('PLAN', `Steps: ${plan.steps.length}`);
-      log('PLAN', `Complexity: ${plan.estimatedComplexity} | Risk: ${plan.riskLevel}`);
+      if (worktrees) {
+        await prepareWorktrees(worktrees, runs);
+      }
 
-      if (plan.relevantMemory.length > 0) {
-        log('PLAN', `Memory context: ${plan.relevantMemory.length} relevant observations`);
+      // ═══════════════════════════════════════════════════════════════
+      // PHASE 2: PLAN - Create an action plan
+      // ═══════════════════════════════════════════════════════════════
+
+      await Promise.all(runs.map(run => planTask(goal, run, metrics)));
+
+      // Gated tasks are parked until a human approves them
+      const gated = await gateRuns(goal, runs, runningTaskIds);
+      if (gated.length > 0) {
+        if (worktrees) {
+          await removeWorktrees(worktrees, gated);
+        }
+        sm.transition('blocked', { taskId: gated[0].task!.id }, 'awaiting approval');
+
+        if (runs.length === 0) {
+          getEventBus().emit('cycle_end', { ...started, durationMs: Date.now() - cycleStart, tasks: [] });
+          returnToIdle('awaiting approval');
+          saveState();
+          continue;
+        }
+        sm.transition('planning', undefined, 'continuing with ungated tasks');
       }
 
-      state.currentApproach = plan.approach;
-      saveState();
+      // Commands queued while planning - a pause stops the cycle before any session starts
+      applyControlCommands();
+      if (state.paused) {
+        scheduler.recoverInterruptedTasks();
+        if (worktrees) {
+          await removeWorktrees(worktrees, runs);
+        }
+        log('INFO', `Paused before executing ${runs.map(run => run.task?.name || 'exploration').join(', ')}`);
+        getEventBus().emit('cycle_end', { ...started, durationMs: Date.now() - cycleStart, tasks: [] });
+        returnToIdle('paused');
+        saveState();
+        continue;
+      }
 
       // ═══════════════════════════════════════════════════════════════
       // PHASE 3: ACT - Execute the plan
       // ═══════════════════════════════════════════════════════════════
 
-      log('INFO', 'Executing...');
-
-      const result = await runCycle({
-        goal,
-        task: plan.task,
-        state: {
-          cycleCount: state.cycleCount,
-          recentActions: state.recentActions.map(a => ({
-            action: a.action,
-            outcome: a.outcome === 'partial' ? 'failure' : a.outcome,
-          })),
-        },
-        scheduler,
-        customPrompt: plan.prompt,  // Use planner's enhanced prompt
+      sm.transition('executing', {
+        planSteps: runs.reduce((sum, run) => sum + (run.plan?.steps.length || 0), 0),
       });
 
-      const cycleDuration = Date.now() - cycleStart;
+      await Promise.all(runs.map(run => actTask(goal, run)));
+
+      // From here on the sessions have run: commands are applied between
+      // phases (those for the cycle's own tasks wait until it ends)
+      applyControlCommands();
 
       // ═══════════════════════════════════════════════════════════════
-      // PHASE 4: REFLECT - Analyze outcome and learn
+      // PHASE 4: VERIFY - Acceptance checks, then merge parallel work
       // ═══════════════════════════════════════════════════════════════
 
-      log('REFLECT', 'Analyzing outcome...');
+      sm.transition('verifying');
 
-      const reflection = reflector.reflect(plan, {
-        success: result.success,
-        output: result.output || '',
-        error: result.error,
-        durationMs: cycleDuration,
-      }, metrics);
+      await verifyRuns(goal, runs);
+      applyControlCommands();
 
-      // Record outcome to heartbeat
-      heartbeat.recordCycle(reflection.outcome === 'success');
+      if (worktrees) {
+        await mergeWorktrees(worktrees, runs);
+        applyControlCommands();
+      }
+
+      // ═══════════════════════════════════════════════════════════════
+      // PHASE 5: REFLECT - Analyze outcome and learn
+      // ═══════════════════════════════════════════════════════════════
 
-      // Log reflection
-      const outcomeIcon = reflection.outcome === 'success' ? '✓' : reflection.outcome === 'partial' ? '~' : '✗';
-      log('REFLECT', `${outcomeIcon} ${reflection.summary}`);
+      sm.transition('reflecting');
 
-      if (reflection.keyInsight) {
-        log('REFLECT', `Insight: ${reflection.keyInsight}`);
+      for (const run of runs) {
+        reflectTask(goal, run, metrics);
+        await settleSnapshot(goal, run);
+        recordTaskOutcome(goal, run, runningTaskIds);
+        await applyPlanChanges(goal, run);
       }
 
-      if (reflection.suggestedChange) {
-        log('REFLECT', `Suggestion: ${reflection.suggestedChange}`);
+      if (worktrees) {
+        await removeWorktrees(worktrees, runs);
       }
 
       // ═══════════════════════════════════════════════════════════════
-      // PHASE 5: ADAPT - Update state and strategy
+      // PHASE 6: ADAPT - Update state and strategy
       // ═══════════════════════════════════════════════════════════════
 
-      // Record action
-      state.recentActions.push({
-        action: result.action,
-        outcome: reflection.outcome,
-        approach: plan.approach.split(':')[0],
-        durationMs: cycleDuration,
-        timestamp: new Date().toISOString(),
-      });
-
-      // Keep only last 50 actions
-      if (state.recentActions.length > 50) {
-        state.recentActions = state.recentActions.slice(-50);
-      }
-
-      // Update progress
+      // Update progress and the goal's share of time
+      scheduler.recordGoalTime(goal.id, Date.now() - cycleStart);
       state.progress = scheduler.getProgress();
       state.lastCycleAt = new Date().toISOString();
 
-      // Check if goal completed
-      if (scheduler.isGoalCompleted(goal.id)) {
+      // Check if goal completed (the scheduler updates goal status)
+      if (goal.status === 'completed') {
         log('INFO', `🎉 Goal completed: ${goal.name}`);
-        scheduler.markGoalCompleted(goal.id);
+      } else if (goal.status === 'failed') {
+        log('WARN', `Goal failed - no runnable tasks remain: ${goal.name}`);
       }
 
+      getEventBus().emit('cycle_end', {
+        ...started,
+        durationMs: Date.now() - cycleStart,
+        tasks: runs.map(run => ({ taskId: run.task?.id || null, success: run.result?.success ?? false })),
+      });
+
+      getTelemetry().autoSave();
+      returnToIdle('cycle complete');
       saveState();
 
       // ═══════════════════════════════════════════════════════════════
       // WAIT - Rate limiting with adaptive pacing
       // ═══════════════════════════════════════════════════════════════
 
-      const delay = heartbeat.getRecommendedDelay();
+      // Pace down as budgets run low
+      const throttle = budget.getThrottleMultiplier(goal);
+      const delay = Math.round(heartbeat.getRecommendedDelay() * throttle);
+      if (throttle > 1) {
+        log('WARN', `Budget running low - pacing cycles x${throttle.toFixed(1)}`);
+      }
       log('DEBUG', `Next cycle in ${delay / 1000}s`);
 
-      await new Promise(resolve => setTimeout(resolve, delay));
+      await sleep(delay);
 
     } catch (err: any) {
       log('ERROR', `Cycle error: ${err.message}`);
       log('DEBUG', err.stack);
 
+      if (started) {
+        getEventBus().emit('cycle_end', { ...started, durationMs: Date.now() - cycleStart, tasks: [], error: err.message });
+      }
+
+      if (sm.canTransition('error')) {
+        sm.transition('error', { lastError: err.message }, 'cycle error');
+      }
+
       // Record failure
       heartbeat.recordCycle(false);
 
+      // Don't leave tasks stuck in 'running'
+      for (const taskId of runningTaskIds) {
+        scheduler.recordTaskResult({
+          taskId,
+          success: false,
+          error: err.message,
+          durationMs: Date.now() - cycleStart,
+        });
+      }
+
+      if (worktrees) {
+        await removeWorktrees(worktrees, runs);
+      }
+
       state.recentActions.push({
         action: 'cycle-error',
         outcome: 'failure',
@@ -352,7 +849,745 @@ export async function runLoop() {
       saveState();
 
       // Wait longer after error
-      await new Promise(resolve => setTimeout(resolve, 30000));
+      await sleep(getConfig().cycleDelays.error);
+      returnToIdle('error recovery');
+    }
+  }
+
+  // Only reached with maxCycles - stop timers so the process can exit
+  for (const [signal, handler] of Object.entries(signalHandlers)) {
+    process.off(signal, handler);
+  }
+  heartbeat.stop();
+  goalWatcher.stop();
+  getTelemetry().autoSave();
+  sm.stop();
+  saveState();
+  log('INFO', `Stopped after ${options.maxCycles} cycles`);
+}
+
+/**
+ * Log prefix for a run - only needed when several tasks share the log
+ */
+function runLabel(run: TaskRun): string {
+  return run.task && run.worktree ? `[${run.task.id}] ` : '';
+}
+
+/**
+ * Mark a run as failed before it reached the REFLECT phase
+ */
+function failRun(run: TaskRun, error: string): void {
+  run.result = { action: run.task?.name || 'explore', success: false, error };
+  run.durationMs = Date.now() - run.startedAt;
+}
+
+/**
+ * Give each run in a parallel batch its own worktree
+ */
+async function prepareWorktrees(worktrees: WorktreeManager, runs: TaskRun[]): Promise<void> {
+  for (const run of runs) {
+    if (!run.task) continue;
+
+    try {
+      run.worktree = await worktrees.create(run.task.id);
+      run.cwd = run.worktree.cwd;
+      log('DEBUG', `[${run.task.id}] Worktree: ${run.worktree.cwd} (${run.worktree.branch})`);
+    } catch (err: any) {
+      log('ERROR', `[${run.task.id}] Could not create worktree: ${err.message}`);
+      failRun(run, `Worktree setup failed: ${err.message}`);
+    }
+  }
+}
+
+/**
+ * PLAN: build the approach and prompt for one run
+ */
+async function planTask(goal: DAGGoal, run: TaskRun, metrics: HealthMetrics): Promise<void> {
+  if (run.result) return;
+
+  const label = runLabel(run);
+  log('PLAN', `${label}Creating action plan...`);
+
+  const taskKey = run.task?.id || 'explore';
+  if (taskKey !== breakerTaskId) {
+    breaker.startTask(taskKey);
+    breakerTaskId = taskKey;
+  }
+
+  // A soft trip on this task forces the planner onto its fallback approach
+  const lastTrip = breaker.getLastTrip();
+  const circuitWarning = breaker.shouldWarn() && (!lastTrip?.taskId || lastTrip.taskId === taskKey)
+    ? lastTrip?.message
+    : undefined;
+  if (circuitWarning) {
+    log('PLAN', `${label}Circuit breaker open - switching to fallback approach`);
+  }
+
+  try {
+    const plan = await planner.createPlan({
+      goal,
+      task: run.task,
+      metrics,
+      recentActions: recentOutcomes(),
+      circuitWarning,
+      resumed: run.resumed,
+      answers: run.task ? inbox.getAnswers(run.task.id) : [],
+      failedChecks: run.task ? failedChecks.get(run.task.id) : undefined,
+    });
+    run.plan = plan;
+
+    log('PLAN', `${label}Approach: ${plan.approach}`);
+    log('PLAN', `${label}Steps: ${plan.steps.length}`);
+    log('PLAN', `${label}Complexity: ${plan.estimatedComplexity} | Risk: ${plan.riskLevel}`);
+
+    run.model = router.route(goal, plan);
+    log('PLAN', `${label}Model: ${run.model.model} (${run.model.reason})`);
+
+    if (plan.relevantMemory.length > 0) {
+      log('PLAN', `${label}Memory context: ${plan.relevantMemory.length} relevant observations`);
+    }
+
+    state.currentApproach = plan.approach;
+  } catch (err: any) {
+    log('ERROR', `${label}Planning failed: ${err.message}`);
+    failRun(run, `Planning failed: ${err.message}`);
+  }
+}
+
+/**
+ * GATE: park runs whose task needs human approval
+ *
+ * Removes them from `runs` and returns them. An approved request is used
+ * up by the attempt it unlocks.
+ */
+async function gateRuns(goal: DAGGoal, runs: TaskRun[], runningTaskIds: string[]): Promise<TaskRun[]> {
+  const gated: TaskRun[] = [];
+
+  for (const run of runs) {
+    if (!run.task || !run.plan || run.result) continue;
+
+    const reason = approvalReason(goal, run.task, run.plan);
+    if (!reason) continue;
+
+    const label = runLabel(run);
+    const approved = approvals.consume(run.task.id);
+    if (approved) {
+      log('INFO', `${label}Approved via ${approved.decidedBy} (${approved.id}) - proceeding`);
+      continue;
+    }
+
+    const approval = approvals.getPending(run.task.id) || approvals.create({
+      goalId: goal.id,
+      goalName: goal.name,
+      taskId: run.task.id,
+      taskName: run.task.name,
+      reason,
+      plan: {
+        approach: run.plan.approach,
+        steps: run.plan.steps,
+        complexity: run.plan.estimatedComplexity,
+        riskLevel: run.plan.riskLevel,
+        model: run.model?.model,
+      },
+      cwd: run.cwd,
+      diff: await new WorktreeManager(run.cwd).diff(),
+    });
+
+    scheduler.blockTask(run.task.id, awaitingApprovalReason(approval.id));
+    runningTaskIds.splice(runningTaskIds.indexOf(run.task.id), 1);
+    log('WARN', `${label}${run.task.name} needs approval (${reason}) - run: nexus approve ${approval.id} (or nexus reject ${approval.id})`);
+    gated.push(run);
+  }
+
+  for (const run of gated) {
+    runs.splice(runs.indexOf(run), 1);
+  }
+  return gated;
+}
+
+/**
+ * Act on approvals decided since the last cycle (CLI or status API)
+ */
+function applyApprovalDecisions(goal: DAGGoal): void {
+  for (const approval of approvals.list()) {
+    if (approval.goalId !== goal.id || approval.status === 'pending') continue;
+
+    const task = goal.tasks.find(t => t.id === approval.taskId);
+    if (task?.status !== 'blocked' || task.blockReason !== awaitingApprovalReason(approval.id)) continue;
+
+    if (approval.status === 'approved') {
+      scheduler.unblockTask(task.id, false);
+      log('INFO', `Approval ${approval.id} granted - ${task.name} can run`);
+    } else {
+      scheduler.blockTask(task.id, `Rejected (${approval.id})${approval.note ? `: ${approval.note}` : ''}`);
+      log('WARN', `Approval ${approval.id} rejected - ${task.name} stays blocked`);
+    }
+  }
+}
+
+/**
+ * Apply commands queued through the status API
+ *
+ * Runs at the start of each cycle and between its phases. Commands for a
+ * task that is still running wait until it has finished.
+ */
+function applyControlCommands(): void {
+  for (const command of control.list('queued')) {
+    const found = command.taskId ? scheduler.findTask(command.taskId) : null;
+    if (found?.task.status === 'running') continue;
+
+    try {
+      const result = applyControlCommand(command, found);
+      control.settle(command.id, 'applied', result);
+      log('INFO', `Control ${command.action} (${command.id}, ${command.by}): ${result}`);
+    } catch (err: any) {
+      control.settle(command.id, 'rejected', err.message);
+      log('WARN', `Control ${command.action} (${command.id}) rejected: ${err.message}`);
+    }
+  }
+}
+
+/**
+ * Carry out one control command; returns what was done or throws
+ */
+function applyControlCommand(
+  command: ControlCommand,
+  found: { goal: DAGGoal; task: DAGTask } | null
+): string {
+  switch (command.action) {
+    case 'pause':
+      state.paused = { since: new Date().toISOString(), by: command.by, reason: command.reason };
+      saveState();
+      return 'paused - no new cycles until resumed';
+
+    case 'resume':
+      if (!state.paused) return 'was not paused';
+      state.paused = undefined;
+      if (sm.getState() === 'sleeping') {
+        sm.transition('idle', undefined, 'resumed');
+      }
+      saveState();
+      return 'resumed';
+
+    case 'inject': {
+      const task = scheduler.injectTask(command.goalId || '', command.task!, command.by);
+      return `added ${task.id} to ${command.goalId}`;
+    }
+  }
+
+  if (!found) {
+    throw new Error(`No task ${command.taskId}`);
+  }
+  const { task } = found;
+  const status = task.status;
+  if (command.action === 'skip' && (status === 'completed' || status === 'skipped')) {
+    throw new Error(`Task ${task.id} is already ${status}`);
+  }
+
+  const done = command.action === 'skip'
+    ? scheduler.skipTask(task.id, command.reason || `Skipped by ${command.by}`)
+    : command.action === 'retry'
+      ? scheduler.retryTask(task.id)
+      : scheduler.unblockTask(task.id);
+
+  if (!done) {
+    throw new Error(`Task ${task.id} is ${status} - can't ${command.action} it`);
+  }
+  return `${task.id} ${command.action === 'skip' ? 'skipped' : command.action === 'retry' ? 'will run again' : 'unblocked'}`;
+}
+
+/**
+ * Unblock tasks whose questions have been answered since the last cycle
+ */
+function applyInboxReplies(goal: DAGGoal): void {
+  for (const question of inbox.list('answered')) {
+    if (question.goalId !== goal.id) continue;
+
+    const task = goal.tasks.find(t => t.id === question.taskId);
+    if (task?.status !== 'blocked' || task.blockReason !== awaitingReplyReason(question)) continue;
+
+    scheduler.unblockTask(task.id, false);
+    log('INFO', `Reply to ${question.id} received - ${task.name} can run`);
+  }
+}
+
+/**
+ * ACT: run the planned Claude session
+ *
+ * With `feedback` this is a re-execution after failed acceptance checks;
+ * usage from the earlier session is carried over.
+ */
+async function actTask(goal: DAGGoal, run: TaskRun, feedback?: string): Promise<void> {
+  if (!run.plan || (run.result && !feedback)) return;
+
+  const label = runLabel(run);
+  log('INFO', `${label}${feedback ? 'Re-executing with check results' : 'Executing'}...`);
+  const previous = run.result;
+
+  if (!feedback && getConfig().snapshots.enabled) {
+    run.snapshot = await snapshots.take(run.cwd, run.task?.id || 'explore') || undefined;
+  }
+
+  // Later attempts at a task continue its Claude session. Worktrees are
+  // recreated from a clean checkout, so their sessions would describe lost work;
+  // sandboxed sessions keep their transcripts in a copy that is thrown away.
+  const resumable = !!run.task && !run.worktree && !resolveSandbox(goal, run.cwd);
+  let resumeSessionId: string | undefined;
+  if (resumable) {
+    const decision = sessions.getResumable(run.task!.id, { approach: approachName(run.plan), cwd: run.cwd });
+    if (decision.sessionId) {
+      resumeSessionId = decision.sessionId;
+      log('INFO', `${label}Resuming session ${decision.sessionId.slice(0, 8)}`);
+    } else if (decision.reason) {
+      log('INFO', `${label}Starting fresh session: ${decision.reason}`);
+    }
+  }
+
+  try {
+    run.result = await runCycle({
+      goal,
+      task: run.plan.task,
+      state: {
+        cycleCount: sm.getContext().cycleCount || 0,
+        recentActions: recentOutcomes(),
+      },
+      // Use planner's enhanced prompt; a resumed session only needs the feedback
+      customPrompt: feedback ? (resumeSessionId ? feedback : `${run.plan.prompt}\n${feedback}`) : run.plan.prompt,
+      cwd: run.cwd,
+      resumeSessionId,
+      model: run.model?.model,
+      executor,
+    });
+  } catch (err: any) {
+    failRun(run, err.message);
+  }
+
+  run.durationMs = Date.now() - run.startedAt;
+
+  if (previous?.usage && run.result?.usage) {
+    run.result.usage = addUsage(previous.usage, run.result.usage);
+  }
+
+  if (resumable) {
+    sessions.record(run.task!.id, run.result!, { approach: approachName(run.plan), cwd: run.cwd });
+  }
+}
+
+/**
+ * Combined usage of two sessions for the same run
+ */
+function addUsage(a: CycleUsage, b: CycleUsage): CycleUsage {
+  return {
+    tokensInput: a.tokensInput + b.tokensInput,
+    tokensOutput: a.tokensOutput + b.tokensOutput,
+    tokensCacheRead: a.tokensCacheRead + b.tokensCacheRead,
+    costUsd: a.costUsd !== undefined || b.costUsd !== undefined ? (a.costUsd || 0) + (b.costUsd || 0) : undefined,
+    numTurns: a.numTurns !== undefined || b.numTurns !== undefined ? (a.numTurns || 0) + (b.numTurns || 0) : undefined,
+    toolsUsed: [...a.toolsUsed, ...b.toolsUsed],
+  };
+}
+
+/**
+ * VERIFY: run acceptance checks on runs that reported completion
+ *
+ * Failures go back to executing with the check output, up to
+ * verification.maxRetries times. Runs that still fail are recorded as
+ * failed attempts, and their report is carried into the next plan.
+ */
+async function verifyRuns(goal: DAGGoal, runs: TaskRun[]): Promise<void> {
+  let failing = await checkRuns(runs);
+
+  for (let attempt = 1; failing.length > 0 && attempt <= getConfig().verification.maxRetries; attempt++) {
+    sm.transition('executing', undefined, `acceptance checks failed (retry ${attempt})`);
+    await Promise.all(failing.map(run => actTask(goal, run, formatFailures(run.verification!))));
+    sm.transition('verifying');
+    failing = await checkRuns(failing);
+  }
+
+  for (const run of failing) {
+    const failed = run.verification!.checks.filter(check => !check.passed).map(check => check.name);
+    failedChecks.set(run.task!.id, formatFailures(run.verification!));
+    run.result = { ...run.result!, success: false, error: `Acceptance checks failed: ${failed.join(', ')}` };
+  }
+}
+
+/**
+ * Check the runs whose session completed its task; returns those that failed
+ */
+async function checkRuns(runs: TaskRun[]): Promise<TaskRun[]> {
+  const failing: TaskRun[] = [];
+
+  for (const run of runs) {
+    const checks = run.task?.acceptance;
+    const termination = run.result?.termination;
+    if (!checks?.length || !run.result?.success || termination?.type !== 'complete') continue;
+
+    const label = runLabel(run);
+    log('INFO', `${label}Verifying ${checks.length} acceptance check(s)...`);
+    run.verification = await verifier.verify(checks, {
+      cwd: run.cwd,
+      output: [run.result.output, termination.summary].filter(Boolean).join('\n'),
+    });
+
+    for (const check of run.verification.checks) {
+      log(check.passed ? 'INFO' : 'WARN', `${label}  ${check.passed ? '✓' : '✗'} ${check.name} (${check.durationMs}ms)`);
+    }
+
+    if (run.verification.passed) {
+      failedChecks.delete(run.task!.id);
+    } else {
+      failing.push(run);
+    }
+  }
+
+  return failing;
+}
+
+/**
+ * Short approach name (the part before the colon)
+ */
+function approachName(plan: Plan): string {
+  return plan.approach.split(':')[0];
+}
+
+/**
+ * VERIFY: merge successful parallel branches back in dependency order
+ *
+ * A merge conflict turns that task's result into a failure so it is retried.
+ */
+async function mergeWorktrees(worktrees: WorktreeManager, runs: TaskRun[]): Promise<void> {
+  const order = scheduler.getTopologicalOrder();
+  const mergeable = runs
+    .filter(run => run.task && run.worktree && run.result?.success)
+    .sort((a, b) => order.indexOf(a.task!.id) - order.indexOf(b.task!.id));
+
+  for (const run of mergeable) {
+    const task = run.task!;
+    const worktree = run.worktree!;
+
+    try {
+      await worktrees.commitAll(worktree, `${task.name}\n\nUncommitted work from task ${task.id}`);
+    } catch (err: any) {
+      log('WARN', `[${task.id}] Could not commit leftover changes: ${err.message}`);
+    }
+
+    const merge = await worktrees.merge(worktree);
+    if (merge.success) {
+      log('INFO', `[${task.id}] Merged ${worktree.branch} into ${worktree.baseBranch}`);
+    } else {
+      log('WARN', `[${task.id}] ${merge.error}`);
+      run.result = { ...run.result!, success: false, error: merge.error };
+    }
+  }
+}
+
+/**
+ * Remove the worktrees of a finished (or aborted) batch
+ */
+async function removeWorktrees(worktrees: WorktreeManager, runs: TaskRun[]): Promise<void> {
+  for (const run of runs) {
+    if (run.worktree) {
+      await worktrees.remove(run.worktree);
+      run.worktree = undefined;
+    }
+  }
+}
+
+/**
+ * REFLECT: analyze the outcome and feed heartbeat/circuit breaker
+ */
+function reflectTask(goal: DAGGoal, run: TaskRun, metrics: HealthMetrics): void {
+  const label = runLabel(run);
+  const result = run.result!;
+
+  // Failed before a session ran - nothing to reflect on
+  if (!run.plan) {
+    heartbeat.recordCycle(false);
+    return;
+  }
+
+  const usage = result.usage;
+  if (usage) {
+    const cost = usage.costUsd !== undefined ? ` | $${usage.costUsd.toFixed(4)}` : '';
+    log('REFLECT', `${label}Usage: ${usage.tokensInput} in / ${usage.tokensOutput} out` +
+      ` (${usage.tokensCacheRead} cached) | ${usage.toolsUsed.length} tool calls${cost}`);
+  }
+
+  log('REFLECT', `${label}Analyzing outcome...`);
+
+  const reflection = reflector.reflect(run.plan, {
+    success: result.success,
+    output: result.output || '',
+    error: result.error,
+    durationMs: run.durationMs,
+  }, metrics);
+  run.reflection = reflection;
+  getEventBus().emit('reflection', {
+    taskId: run.task?.id,
+    outcome: reflection.outcome,
+    summary: reflection.summary,
+    keyInsight: reflection.keyInsight,
+    shouldRetry: reflection.shouldRetry,
+  });
+
+  // Record outcome to heartbeat
+  heartbeat.recordCycle(reflection.outcome === 'success');
+
+  // Feed the circuit breaker - a deliberate block/skip/help is not a failure.
+  // Cache reads are replayed context, so they don't count against the budget.
+  const tokensUsed = usage ? usage.tokensInput + usage.tokensOutput : 0;
+  const lastTrip = breaker.getLastTrip();
+  if (result.sandboxViolations?.length) {
+    for (const violation of result.sandboxViolations) {
+      log('WARN', `${label}Sandbox refused: ${violation}`);
+    }
+    breaker.recordViolation(run.task?.id || 'explore', result.sandboxViolations);
+  }
+  const attemptOk = result.success || (!!result.termination && result.termination.type !== 'complete');
+  breaker.addTokens(tokensUsed);
+  breaker.recordCycle({
+    taskId: run.task?.id || 'explore',
+    output: result.output || '',
+    error: result.error,
+    success: attemptOk,
+    tokensUsed,
+    durationMs: run.durationMs,
+  });
+  router.recordOutcome(run.task?.id || 'explore', attemptOk);
+  if (breaker.getLastTrip() !== lastTrip) {
+    run.trip = breaker.getLastTrip()!;
+  }
+
+  const context = sm.getContext();
+  getTelemetry().recordCycle({
+    timestamp: Date.now(),
+    cycleId: `${context.metadata?.agentId}-${context.cycleCount || 0}-${run.task?.id || 'explore'}`,
+    taskName: run.task?.name || result.action,
+    durationMs: run.durationMs,
+    success: reflection.outcome === 'success',
+    tokensInput: usage?.tokensInput || 0,
+    tokensOutput: usage?.tokensOutput || 0,
+    tokensCacheRead: usage?.tokensCacheRead,
+    costCents: usage?.costUsd !== undefined ? Math.round(usage.costUsd * 10000) / 100 : undefined,
+    toolsUsed: usage?.toolsUsed || [],
+    approach: approachName(run.plan),
+    errorType: result.error ? classifyError(result.error) : undefined,
+    goalId: goal.id,
+    taskId: run.task?.id,
+    model: run.model?.model,
+    modelReason: run.model?.reason,
+  });
+
+  // Log reflection
+  const outcomeIcon = reflection.outcome === 'success' ? '✓' : reflection.outcome === 'partial' ? '~' : '✗';
+  log('REFLECT', `${label}${outcomeIcon} ${reflection.summary}`);
+
+  if (reflection.keyInsight) {
+    log('REFLECT', `${label}Insight: ${reflection.keyInsight}`);
+  }
+
+  if (reflection.suggestedChange) {
+    log('REFLECT', `${label}Suggestion: ${reflection.suggestedChange}`);
+  }
+
+  // Record action
+  state.recentActions.push({
+    action: result.action,
+    outcome: reflection.outcome,
+    approach: approachName(run.plan),
+    durationMs: run.durationMs,
+    timestamp: new Date().toISOString(),
+  });
+
+  // Keep only last 50 actions
+  if (state.recentActions.length > 50) {
+    state.recentActions = state.recentActions.slice(-50);
+  }
+}
+
+/**
+ * Did the run count as a failed attempt? A deliberate block, skip or
+ * help request does not.
+ */
+function attemptFailed(run: TaskRun): boolean {
+  const termination = run.result?.termination;
+  if (termination && termination.type !== 'complete') return false;
+  return !run.result?.success || (!!run.task && termination?.type !== 'complete');
+}
+
+/**
+ * Save the cycle's diff and, if the rollback policy says so, undo it
+ *
+ * Worktree runs are never rolled back - a failed branch isn't merged.
+ */
+async function settleSnapshot(goal: DAGGoal, run: TaskRun): Promise<void> {
+  const snapshot = run.snapshot;
+  if (!snapshot || !run.result) return;
+
+  const label = runLabel(run);
+  try {
+    const diff = await snapshots.diff(snapshot);
+    if (diff.files.length === 0) return;
+
+    const failed = attemptFailed(run);
+    let rolledBack = 'no';
+    if (!run.worktree && shouldRollback(getConfig().snapshots.rollback, { failed, tripped: !!run.trip })) {
+      try {
+        await snapshots.restore(snapshot, diff);
+        rolledBack = `yes (undone state at refs/nexus/rolled-back/${snapshot.name})`;
+        log('WARN', `${label}Rolled back ${diff.files.length} changed file(s) from the failed attempt`);
+      } catch (err: any) {
+        rolledBack = `failed - ${err.message.trim()}`;
+        log('ERROR', `${label}Rollback failed: ${err.message}`);
+      }
+    }
+
+    const file = snapshots.save(run.task?.id || 'explore', {
+      Goal: `${goal.name} (${goal.id})`,
+      Task: run.task ? `${run.task.name} (${run.task.id})` : 'explore',
+      Outcome: failed ? `failed${run.result.error ? ` - ${run.result.error.split('\n')[0]}` : ''}` : 'ok',
+      ...(run.trip ? { Trip: `${run.trip.level} ${run.trip.reason}` } : {}),
+      Before: snapshot.commit,
+      After: diff.commit,
+      'Rolled back': rolledBack,
+    }, diff.patch);
+    log('INFO', `${label}Cycle changed ${diff.files.length} file(s) - diff saved to ${file}`);
+  } catch (err: any) {
+    log('WARN', `${label}Could not record the cycle's diff: ${err.message}`);
+  }
+}
+
+/**
+ * Record a task's result in the DAG
+ *
+ * The session's termination tool call decides the status: complete and
+ * failures go through recordTaskResult (unlocking dependents or scheduling
+ * a retry), block/help hold the task, skip skips it.
+ */
+function recordTaskOutcome(goal: DAGGoal, run: TaskRun, runningTaskIds: string[]): void {
+  if (!run.task || !run.result) return;
+
+  const index = runningTaskIds.indexOf(run.task.id);
+  if (index === -1) return;
+  runningTaskIds.splice(index, 1);
+
+  const { task, result } = run;
+  const termination = result.termination;
+
+  switch (termination?.type) {
+    case 'blocked':
+      log('WARN', `Task blocked: ${task.name} - ${termination.reason}`);
+      for (const blocker of termination.blockers) {
+        log('WARN', `  ${blocker.type}: ${blocker.description}${blocker.resolution ? ` (needs: ${blocker.resolution})` : ''}`);
+      }
+      scheduler.blockTask(task.id, termination.reason, termination.blockers);
+      return;
+
+    case 'skipped':
+      log('INFO', `Task skipped: ${task.name} - ${termination.reason}`);
+      scheduler.skipTask(task.id, termination.reason);
+      return;
+
+    case 'help_requested': {
+      // The question waits in the inbox; other ready tasks keep running
+      const question = inbox.ask({
+        goalId: goal.id,
+        goalName: goal.name,
+        taskId: task.id,
+        taskName: task.name,
+        question: termination.question,
+        context: termination.context,
+      });
+      log('WARN', `Help requested for ${task.name}: ${termination.question}`);
+      log('WARN', `  Answer with: nexus reply ${question.id} "<answer>"`);
+      scheduler.blockTask(task.id, awaitingReplyReason(question));
+      return;
+    }
+  }
+
+  // Completion only counts if the work also survived (e.g. merged cleanly)
+  const completed = termination?.type === 'complete' && result.success;
+  if (completed && termination.artifacts.length > 0) {
+    log('INFO', `Artifacts: ${termination.artifacts.map(a => `${a.type}:${a.path}`).join(', ')}`);
+  }
+
+  scheduler.recordTaskResult({
+    taskId: task.id,
+    success: completed,
+    output: completed ? termination.summary : result.output,
+    error: result.error,
+    durationMs: run.durationMs,
+    artifacts: completed ? termination.artifacts : undefined,
+  });
+}
+
+/**
+ * Apply the session's update_plan calls to the goal file, then reload
+ * the goal so new tasks are scheduled right away
+ */
+async function applyPlanChanges(goal: DAGGoal, run: TaskRun): Promise<void> {
+  const changes = run.result?.planChanges;
+  if (!changes?.length) return;
+
+  const label = runLabel(run);
+  if (!goal.sourceFile) {
+    log('WARN', `${label}Ignoring ${changes.length} plan change(s) - ${goal.name} has no goal file`);
+    return;
+  }
+
+  let applied = 0;
+  for (const change of changes) {
+    try {
+      const record = goalEditor.apply(goal.sourceFile, change, {
+        goalId: goal.id,
+        by: run.task?.id || 'explore',
+        statusOf: id => goal.tasks.find(t => t.id === id)?.status,
+      });
+      applied++;
+      log('PLAN', `${label}Plan ${change.action} (${record.id}): ${change.reason}`);
+      if (record.added?.length) log('PLAN', `${label}  added ${record.added.join(', ')}`);
+      if (record.removed?.length) log('PLAN', `${label}  removed ${record.removed.join(', ')}`);
+    } catch (err: any) {
+      log('WARN', `${label}Plan change rejected (${change.action}): ${err.message}`);
+    }
+  }
+
+  if (applied > 0) {
+    await scheduler.reloadGoal(goal.id);
+  }
+}
+
+/**
+ * PERCEIVE: pick up goal files edited, added or deleted since last cycle
+ *
+ * A file that no longer validates is reported and its previous version
+ * keeps running until it is fixed.
+ */
+async function reloadChangedGoals(): Promise<void> {
+  const { changed, removed } = goalWatcher.changes();
+
+  for (const file of removed) {
+    const goal = scheduler.removeGoalFile(file);
+    if (goal) log('WARN', `Goal file removed - dropped ${goal.name} (${goal.progress}% done)`);
+  }
+
+  for (const file of changed) {
+    const check = validateGoalFile(file);
+    if (!check.valid) {
+      log('ERROR', `Goal file ${file} is invalid - keeping the previous version`);
+      for (const issue of check.errors) {
+        log('ERROR', `  ${issue.path || '(goal)'}: ${issue.message}`);
+      }
+      continue;
+    }
+
+    const reconciliation = await scheduler.reloadGoalFile(file);
+    if (!reconciliation) continue;
+
+    if (reconciliation.created) {
+      log('INFO', `New goal loaded: ${reconciliation.goalName}`);
+    } else if (hasTaskChanges(reconciliation)) {
+      log('INFO', `Reloaded goal ${reconciliation.goalName}: ${describeReconciliation(reconciliation)}`);
     }
   }
 }
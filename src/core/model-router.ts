@@ -0,0 +1,91 @@
+/**
+ * Hutch Agent Model Router
+ *
+ * Picks the Claude model for each task session. The planner's complexity
+ * estimate chooses the starting tier (high-risk tasks start at the top),
+ * and failed attempts in a row on the same task climb the ladder:
+ *
+ *   simple → medium → complex
+ *
+ * A success drops the task back to its starting tier. A goal's
+ * "execution.model" pins the model and bypasses routing.
+ */
+
+import { getConfig, AgentConfig } from './config.js';
+import type { Plan } from './planner.js';
+import type { DAGGoal } from '../scheduler/dag-scheduler.js';
+
+export type ModelTier = 'simple' | 'medium' | 'complex';
+
+const TIERS: ModelTier[] = ['simple', 'medium', 'complex'];
+
+export interface ModelChoice {
+  model: string;
+  /** Why this model was picked (recorded in telemetry) */
+  reason: string;
+  tier?: ModelTier;
+}
+
+export class ModelRouter {
+  private config: AgentConfig['modelRouting'];
+  private defaultModel: string;
+  /** Failed attempts in a row per task */
+  private failures = new Map<string, number>();
+
+  constructor(
+    config: AgentConfig['modelRouting'] = getConfig().modelRouting,
+    defaultModel: string = getConfig().claudeModel
+  ) {
+    this.config = config;
+    this.defaultModel = defaultModel;
+  }
+
+  /**
+   * Apply new settings (e.g. after a config reload); failure counts are kept
+   */
+  configure(config: AgentConfig['modelRouting'], defaultModel: string): void {
+    this.config = config;
+    this.defaultModel = defaultModel;
+  }
+
+  /**
+   * Count a task's attempt - a success resets its escalation
+   */
+  recordOutcome(taskId: string, success: boolean): void {
+    if (success) {
+      this.failures.delete(taskId);
+    } else {
+      this.failures.set(taskId, (this.failures.get(taskId) || 0) + 1);
+    }
+  }
+
+  /**
+   * Choose the model for a planned task
+   */
+  route(goal: DAGGoal, plan: Plan): ModelChoice {
+    if (goal.execution?.model) {
+      return { model: goal.execution.model, reason: 'pinned by goal' };
+    }
+    if (!this.config.enabled) {
+      return { model: this.defaultModel, reason: 'routing disabled' };
+    }
+
+    let tier: ModelTier = plan.estimatedComplexity;
+    let reason = `${plan.estimatedComplexity} task`;
+    if (plan.riskLevel === 'high' && tier !== 'complex') {
+      tier = 'complex';
+      reason = `high risk ${plan.estimatedComplexity} task`;
+    }
+
+    // Each escalateAfterFailures failures in a row on this task moves up one tier
+    const failures = this.failures.get(plan.task.id) || 0;
+    const threshold = this.config.escalateAfterFailures;
+    if (threshold > 0 && failures >= threshold && tier !== 'complex') {
+      const steps = Math.floor(failures / threshold);
+      tier = TIERS[Math.min(TIERS.indexOf(tier) + steps, TIERS.length - 1)];
+      reason += `, escalated to ${tier} after ${failures} failures in a row`;
+    }
+
+    return { model: this.config[tier], reason, tier };
+  }
+}
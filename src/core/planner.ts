@@ -10,12 +10,16 @@
  */
 
 import { spawn } from 'child_process';
-import { Goal, Task } from '../scheduler/scheduler.js';
+import { DAGGoal, DAGTask } from '../scheduler/dag-scheduler.js';
 import { HealthMetrics } from './heartbeat.js';
+import { getTerminationInstructions } from '../tools/termination.js';
+import { getPlanInstructions } from '../tools/plan.js';
+import { getConfig } from './config.js';
+import { describeCheck } from './verifier.js';
 
 export interface Plan {
   // What to do
-  task: Task;
+  task: DAGTask;
   approach: string;
   steps: string[];
 
@@ -34,21 +38,31 @@ export interface Plan {
 }
 
 export interface PlannerContext {
-  goal: Goal;
-  task: Task | null;
+  goal: DAGGoal;
+  task: DAGTask | null;
   metrics: HealthMetrics;
   recentActions: Array<{
     action: string;
     outcome: 'success' | 'failure';
   }>;
+  /** Soft circuit-breaker trip - forces the fallback approach */
+  circuitWarning?: string;
+  /** The previous attempt was cut off mid-execution by a crash/restart */
+  resumed?: boolean;
+  /** Human replies to questions asked via request_help on this task */
+  answers?: Array<{ question: string; answer: string }>;
+  /** Report from the last attempt's failed acceptance checks */
+  failedChecks?: string;
 }
 
+const DEFAULT_FALLBACK_APPROACH = 'step-by-step: Break into tiny steps, verify each one';
+
 export class Planner {
   /**
    * Create a plan for the current task
    */
   async createPlan(context: PlannerContext): Promise<Plan> {
-    const { goal, task, metrics, recentActions } = context;
+    const { goal, task, metrics, recentActions, circuitWarning, resumed, answers, failedChecks } = context;
 
     if (!task) {
       // No specific task - need to figure out what to do
@@ -61,8 +75,9 @@ export class Planner {
     // Analyze past attempts at similar tasks
     const analysis = this.analyzeHistory(recentActions, memory);
 
-    // Determine approach
-    const approach = this.selectApproach(task, analysis, metrics);
+    // Determine approach - a tripped circuit means the usual one isn't working
+    const fallbackApproach = analysis.alternativeApproach || DEFAULT_FALLBACK_APPROACH;
+    const approach = circuitWarning ? fallbackApproach : this.selectApproach(task, analysis, metrics);
 
     // Create step-by-step plan
     const steps = this.generateSteps(task, approach);
@@ -72,7 +87,7 @@ export class Planner {
     const risk = this.assessRisk(task, analysis, metrics);
 
     // Build the prompt for Claude
-    const prompt = this.buildPrompt(goal, task, approach, steps, memory, metrics);
+    const prompt = this.buildPrompt(goal, task, approach, steps, memory, metrics, circuitWarning, resumed, answers, failedChecks);
 
     return {
       task,
@@ -83,7 +98,7 @@ export class Planner {
       pastFailures: memory.failures,
       estimatedComplexity: complexity,
       riskLevel: risk,
-      fallbackApproach: analysis.alternativeApproach,
+      fallbackApproach,
       prompt,
     };
   }
@@ -98,7 +113,7 @@ export class Planner {
   }> {
     try {
       // Query the HutchMem API
-      const response = await fetch(`http://localhost:37777/api/search?q=${encodeURIComponent(taskName)}&limit=10`);
+      const response = await fetch(`${getConfig().hutchMemApiUrl}/api/search?q=${encodeURIComponent(taskName)}&limit=10`);
 
       if (!response.ok) {
         return { relevant: [], successes: [], failures: [] };
@@ -168,7 +183,7 @@ export class Planner {
    * Select the best approach for the task
    */
   private selectApproach(
-    task: Task,
+    task: DAGTask,
     analysis: { recentSuccessRate: number; commonFailures: string[] },
     metrics: HealthMetrics
   ): string {
@@ -212,7 +227,7 @@ export class Planner {
   /**
    * Generate step-by-step plan
    */
-  private generateSteps(task: Task, approach: string): string[] {
+  private generateSteps(task: DAGTask, approach: string): string[] {
     const taskLower = task.name.toLowerCase();
 
     // Common step patterns
@@ -257,7 +272,7 @@ export class Planner {
   /**
    * Estimate task complexity
    */
-  private estimateComplexity(task: Task, steps: string[]): 'simple' | 'medium' | 'complex' {
+  private estimateComplexity(task: DAGTask, steps: string[]): 'simple' | 'medium' | 'complex' {
     const taskLower = task.name.toLowerCase();
 
     // Complex keywords
@@ -281,7 +296,7 @@ export class Planner {
    * Assess risk level
    */
   private assessRisk(
-    task: Task,
+    task: DAGTask,
     analysis: { recentSuccessRate: number },
     metrics: HealthMetrics
   ): 'low' | 'medium' | 'high' {
@@ -308,19 +323,25 @@ export class Planner {
    * Build the prompt for Claude
    */
   private buildPrompt(
-    goal: Goal,
-    task: Task,
+    goal: DAGGoal,
+    task: DAGTask,
     approach: string,
     steps: string[],
     memory: { relevant: string[]; successes: string[]; failures: string[] },
-    metrics: HealthMetrics
+    metrics: HealthMetrics,
+    circuitWarning?: string,
+    resumed?: boolean,
+    answers: Array<{ question: string; answer: string }> = [],
+    failedChecks?: string
   ): string {
     let prompt = `## Current Goal
 ${goal.name}
+${goal.description || ''}
 
 ## Current Task
 ${task.name}
 ${task.description || ''}
+Task ID: ${task.id}
 
 ## Approach
 ${approach}
@@ -329,6 +350,13 @@ ${approach}
 ${steps.map((s, i) => `${i + 1}. ${s}`).join('\n')}
 `;
 
+    const constraints = Object.entries(goal.constraints || {});
+    if (constraints.length > 0) {
+      prompt += `\n## Constraints
+${constraints.map(([key, value]) => `- ${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`).join('\n')}
+`;
+    }
+
     // Add memory context if available
     if (memory.relevant.length > 0) {
       prompt += `\n## Relevant Past Experience
@@ -342,6 +370,54 @@ ${memory.failures.slice(0, 3).map(f => `- ${f}`).join('\n')}
 `;
     }
 
+    // Tell Claude why the approach changed
+    if (circuitWarning) {
+      prompt += `\n## Change of Strategy
+Recent attempts are not working (${circuitWarning}).
+Do NOT repeat what you tried before - follow the approach above instead.
+`;
+    }
+
+    if (resumed) {
+      prompt += `\n## Resuming Interrupted Work
+A previous attempt at this task was interrupted before it finished.
+Check the working directory for partial changes and continue from there rather than starting over.
+`;
+    }
+
+    if (answers.length > 0) {
+      prompt += `\n## Answers to Your Questions
+You asked for help with this task earlier. Your human replied:
+${answers.map(a => `- Q: ${a.question}\n  A: ${a.answer}`).join('\n')}
+Act on these answers - don't ask the same question again.
+`;
+    }
+
+    if (task.acceptance?.length) {
+      prompt += `\n## Acceptance Checks
+The task only counts as complete once these pass:
+${task.acceptance.map(check => `- ${describeCheck(check)}`).join('\n')}
+`;
+    }
+
+    if (failedChecks) {
+      prompt += `\n${failedChecks}`;
+    }
+
+    // Adaptive objectives can be rewritten through update_plan
+    const adaptive = new Map<string, DAGTask[]>();
+    for (const t of goal.tasks) {
+      if (t.metadata?.adaptive !== true) continue;
+      const objective = String(t.metadata.objective);
+      adaptive.set(objective, [...(adaptive.get(objective) || []), t]);
+    }
+    if (adaptive.size > 0) {
+      prompt += `\n## Adaptive Objectives
+${[...adaptive].map(([objective, tasks]) =>
+  `- ${objective}\n${tasks.map(t => `  - ${t.id} [${t.status}] ${t.name}`).join('\n')}`).join('\n')}
+${getPlanInstructions()}`;
+    }
+
     // Add urgency context
     if (metrics.urgencyLevel === 'critical' || metrics.urgencyLevel === 'high') {
       prompt += `\n## URGENCY
@@ -355,9 +431,9 @@ Focus on getting it done, don't over-engineer.
 1. Follow the approach and steps above
 2. Use tools to make progress (Write, Edit, Bash, etc.)
 3. Test your changes when applicable
-4. When done, say "TASK_COMPLETE"
-5. If blocked, say "TASK_BLOCKED: [reason]"
-
+4. When done, call complete_task with task_id "${task.id}"
+5. If blocked, call block_task with the blockers
+${getTerminationInstructions()}
 Begin working on the task.`;
 
     return prompt;
@@ -366,12 +442,16 @@ Begin working on the task.`;
   /**
    * Create an exploratory plan when no specific task is defined
    */
-  private createExploratoryPlan(goal: Goal, metrics: HealthMetrics): Plan {
+  private createExploratoryPlan(goal: DAGGoal, metrics: HealthMetrics): Plan {
     return {
       task: {
         id: 'explore',
         name: 'Analyze and plan next steps',
-        status: 'in_progress',
+        dependencies: [],
+        status: 'running',
+        maxRetries: 1,
+        currentRetries: 0,
+        priority: 0,
       },
       approach: 'exploratory: Understand the goal and determine next actions',
       steps: [
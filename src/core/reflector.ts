@@ -12,11 +12,7 @@
 import { Plan } from './planner.js';
 import { HealthMetrics } from './heartbeat.js';
 import { appendFileSync } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
-
-const AGENT_DIR = join(homedir(), '.hutch-agent');
-const LOG_FILE = process.env.AGENT_LOG_FILE || join(AGENT_DIR, 'agent.log');
+import { LOG_FILE } from './config.js';
 
 export interface ActionResult {
   success: boolean;
@@ -0,0 +1,254 @@
+/**
+ * Execution Sandbox
+ *
+ * Sessions run with --dangerously-skip-permissions, so by default they can
+ * touch anything the agent can. A goal can opt into a sandbox profile:
+ *
+ *   "sandbox": {
+ *     "readPaths": ["~/datasets"],       // extra read-only paths
+ *     "writePaths": ["~/.cache/bun"],    // extra writable paths
+ *     "env": ["GITHUB_TOKEN"],           // secrets the session may see
+ *     "network": false,                  // only the model API is reachable
+ *     "allowHosts": ["registry.npmjs.org"]
+ *   }
+ *
+ * On Linux the session runs under bubblewrap (bwrap): system directories
+ * are read-only, the home directory is hidden apart from Claude's own
+ * state, and only the working directory and writePaths are writable. The
+ * environment is reduced to a fixed allowlist plus the goal's `env`.
+ *
+ * Claude's state (~/.claude, ~/.claude.json) is read-only inside the
+ * sandbox: hooks, settings and MCP servers written there would run
+ * unconfined for every other goal. The session works on a throwaway copy
+ * in the sandbox's own /tmp (CLAUDE_CONFIG_DIR), so its transcripts do not
+ * outlive it.
+ *
+ * With `network: false` the session gets its own network namespace. The
+ * only way out is an HTTPS proxy (see executors/sandbox-net.ts) that lets
+ * through the model API and `allowHosts`. Refused connections and writes
+ * outside the sandbox are reported as violations.
+ */
+
+import { existsSync, realpathSync } from 'fs';
+import { delimiter, dirname, join, resolve } from 'path';
+import { homedir } from 'os';
+import { fileURLToPath } from 'url';
+import type { DAGGoal } from '../scheduler/dag-scheduler.js';
+
+/**
+ * Environment passed through to every sandboxed session. Claude's own
+ * credentials are needed to reach the model; everything else must be
+ * declared by the goal.
+ */
+const BASE_ENV = [
+  'PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'TERM', 'TZ', 'LANG', 'LC_ALL', 'LC_CTYPE',
+  'ANTHROPIC_API_KEY', 'CLAUDE_CODE_OAUTH_TOKEN', 'ANTHROPIC_BASE_URL', 'CLAUDE_CONFIG_DIR',
+];
+
+/** Hosts the model API needs; matched as the host or any subdomain */
+const API_HOSTS = ['anthropic.com'];
+
+/** Read-only system directories (missing ones are skipped) */
+const SYSTEM_PATHS = ['/usr', '/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc', '/opt', '/nix/store'];
+
+/** Throwaway copy of Claude's state, on the sandbox's private /tmp */
+const SANDBOX_CONFIG_DIR = '/tmp/claude-config';
+
+/**
+ * Seeds SANDBOX_CONFIG_DIR from the read-only state ($1 = config dir,
+ * $2 = ~/.claude.json), then runs the command. Transcripts are left out.
+ */
+const SEED_CONFIG_SCRIPT = [
+  'mkdir -p "$CLAUDE_CONFIG_DIR"',
+  'for entry in "$1"/* "$1"/.[!.]*; do [ -e "$entry" ] && [ "${entry##*/}" != projects ] && cp -a "$entry" "$CLAUDE_CONFIG_DIR/"; done',
+  '[ -e "$CLAUDE_CONFIG_DIR/.claude.json" ] || [ ! -e "$2" ] || cp "$2" "$CLAUDE_CONFIG_DIR/.claude.json"',
+  'shift 2',
+  'exec "$@"',
+].join('; ');
+
+/** Output that means the session tried to write outside the sandbox */
+const FS_VIOLATION_PATTERN = /[^\n"]{0,120}(Read-only file system|EROFS)[^\n"]{0,80}/g;
+
+/**
+ * Goal file settings
+ */
+export interface GoalSandbox {
+  /** Defaults to true when a sandbox block is present */
+  enabled?: boolean;
+  readPaths?: string[];
+  writePaths?: string[];
+  /** Environment variables (e.g. secrets) the session may see */
+  env?: string[];
+  /** false = no network apart from the model API and allowHosts */
+  network?: boolean;
+  allowHosts?: string[];
+}
+
+/**
+ * Resolved profile handed to the executor
+ */
+export interface SandboxProfile {
+  /** Writable: the session's cwd and the goal working directory */
+  writePaths: string[];
+  readPaths: string[];
+  env: string[];
+  network: boolean;
+  allowHosts: string[];
+}
+
+/**
+ * The goal's sandbox profile for a session in `cwd`, if it has one
+ */
+export function resolveSandbox(goal: DAGGoal, cwd: string): SandboxProfile | undefined {
+  const sandbox = goal.sandbox;
+  if (!sandbox || sandbox.enabled === false) return undefined;
+
+  return {
+    writePaths: unique([cwd, goal.workingDirectory, ...(sandbox.writePaths || [])].filter(isString).map(expandPath)),
+    readPaths: unique((sandbox.readPaths || []).map(expandPath)),
+    env: unique([...BASE_ENV, ...(sandbox.env || [])]),
+    network: sandbox.network ?? true,
+    allowHosts: unique([...API_HOSTS, ...(sandbox.allowHosts || [])]),
+  };
+}
+
+/**
+ * Reduce an environment to the profile's allowlist
+ */
+export function sandboxEnv(profile: SandboxProfile, env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  const allowed: NodeJS.ProcessEnv = {};
+  for (const key of profile.env) {
+    if (env[key] !== undefined) allowed[key] = env[key];
+  }
+  return allowed;
+}
+
+/**
+ * Is a host covered by an allowlist entry (exact or subdomain)?
+ */
+export function isHostAllowed(host: string, allowHosts: string[]): boolean {
+  const name = host.toLowerCase().replace(/\.$/, '');
+  return allowHosts.some(entry => {
+    const allowed = entry.toLowerCase();
+    return name === allowed || name.endsWith(`.${allowed}`);
+  });
+}
+
+/**
+ * Find bubblewrap on PATH
+ */
+export function findBubblewrap(): string | null {
+  if (process.platform !== 'linux') return null;
+  return findOnPath('bwrap');
+}
+
+/**
+ * bwrap arguments that run `command` inside the profile
+ *
+ * `extraBinds` are writable paths the executor needs (e.g. the proxy
+ * socket directory).
+ */
+export function bubblewrapArgs(profile: SandboxProfile, command: string[], extraBinds: string[] = []): string[] {
+  const home = homedir();
+  const args = [
+    '--die-with-parent',
+    '--new-session',
+    '--unshare-pid',
+    '--unshare-ipc',
+    '--unshare-uts',
+    ...(profile.network ? [] : ['--unshare-net']),
+    '--proc', '/proc',
+    '--dev', '/dev',
+    '--tmpfs', '/tmp',
+  ];
+
+  for (const path of SYSTEM_PATHS) {
+    args.push('--ro-bind-try', path, path);
+  }
+
+  // Hide the home directory; Claude's own state stays visible but read-only
+  const configDir = claudeConfigDir();
+  const globalConfig = join(home, '.claude.json');
+  args.push('--tmpfs', home);
+  args.push('--ro-bind-try', configDir, configDir);
+  args.push('--ro-bind-try', globalConfig, globalConfig);
+
+  // The runtime, this package (MCP server) and the claude CLI itself
+  for (const path of unique([...runtimePaths(), ...profile.readPaths])) {
+    args.push('--ro-bind-try', path, path);
+  }
+
+  for (const path of unique([...profile.writePaths, ...extraBinds])) {
+    args.push('--bind', path, path);
+  }
+
+  args.push('--setenv', 'CLAUDE_CONFIG_DIR', SANDBOX_CONFIG_DIR);
+  args.push('--chdir', profile.writePaths[0], '--', 'sh', '-c', SEED_CONFIG_SCRIPT, 'sh', configDir, globalConfig, ...command);
+  return args;
+}
+
+/**
+ * Writes outside the sandbox, as reported in the session's output
+ */
+export function findFilesystemViolations(output: string): string[] {
+  const matches = output.match(FS_VIOLATION_PATTERN) || [];
+  return unique(matches.map(match => match.replace(/\\[nt]/g, ' ').trim())).slice(0, 5);
+}
+
+/**
+ * Where Claude keeps its state on the host
+ */
+function claudeConfigDir(): string {
+  return process.env.CLAUDE_CONFIG_DIR ? expandPath(process.env.CLAUDE_CONFIG_DIR) : join(homedir(), '.claude');
+}
+
+/**
+ * Directories that must stay readable for the session to start at all
+ */
+function runtimePaths(): string[] {
+  const packageRoot = resolve(dirname(fileURLToPath(import.meta.url)), '..', '..');
+  const paths = [packageRoot, installDir(process.execPath)];
+
+  // claude may be a node script, so node has to come along
+  for (const name of ['claude', 'node']) {
+    const executable = findOnPath(name);
+    if (executable) {
+      paths.push(dirname(executable), installDir(executable));
+    }
+  }
+
+  // Never re-expose the whole filesystem or the hidden home directory
+  return paths.filter(path => path !== '/' && path !== homedir());
+}
+
+/**
+ * Install prefix of an executable (two levels up from its real path,
+ * e.g. ~/.bun for ~/.bun/bin/bun)
+ */
+function installDir(executable: string): string {
+  try {
+    return dirname(dirname(realpathSync(executable)));
+  } catch {
+    return dirname(executable);
+  }
+}
+
+function findOnPath(name: string): string | null {
+  for (const dir of (process.env.PATH || '').split(delimiter)) {
+    const candidate = join(dir, name);
+    if (dir && existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+function expandPath(path: string): string {
+  return resolve(path.startsWith('~/') ? join(homedir(), path.slice(2)) : path);
+}
+
+function isString(value: string | undefined): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function unique<T>(items: T[]): T[] {
+  return [...new Set(items)];
+}
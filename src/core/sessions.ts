@@ -0,0 +1,148 @@
+/**
+ * Claude Session Store
+ *
+ * Remembers the Claude session each task last ran in so the next attempt
+ * can continue it with --resume instead of re-exploring from scratch.
+ *
+ * A task starts a fresh session when:
+ * - its last session failed (errored, timed out, got stuck)
+ * - its session has used up the turn allowance
+ * - the planner switched to a different approach
+ * - it runs in a different directory (sessions are per project dir)
+ *
+ * Completed and skipped tasks drop their session.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { SESSIONS_FILE, getConfig, AgentConfig } from './config.js';
+import type { CycleResult } from './cycle.js';
+
+/** Sessions untouched for this long are forgotten */
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface TaskSession {
+  taskId: string;
+  sessionId: string;
+  /** Approach name the session was working with */
+  approach: string;
+  /** Directory the session ran in */
+  cwd: string;
+  /** Turns used across all attempts in this session */
+  turns: number;
+  attempts: number;
+  updatedAt: string;
+}
+
+export interface ResumeDecision {
+  /** Session to resume, or null to start fresh */
+  sessionId: string | null;
+  /** Why a stored session is not being resumed */
+  reason?: string;
+}
+
+export class SessionStore {
+  private sessions: Map<string, TaskSession> = new Map();
+  private config: AgentConfig['sessions'];
+
+  constructor(config: AgentConfig['sessions'] = getConfig().sessions) {
+    this.config = config;
+    this.load();
+  }
+
+  /**
+   * Decide whether the next attempt at a task resumes its session
+   */
+  getResumable(taskId: string, context: { approach: string; cwd: string }): ResumeDecision {
+    const session = this.sessions.get(taskId);
+    if (!session || !this.config.resume) {
+      return { sessionId: null };
+    }
+
+    let reason: string | undefined;
+    if (session.turns >= this.config.maxTurns) {
+      reason = `session used ${session.turns} turns (limit ${this.config.maxTurns})`;
+    } else if (session.approach !== context.approach) {
+      reason = `approach changed from ${session.approach} to ${context.approach}`;
+    } else if (session.cwd !== context.cwd) {
+      reason = 'working directory changed';
+    }
+
+    if (reason) {
+      this.clear(taskId);
+      return { sessionId: null, reason };
+    }
+
+    return { sessionId: session.sessionId };
+  }
+
+  /**
+   * Update a task's session after an attempt
+   */
+  record(taskId: string, result: CycleResult, context: { approach: string; cwd: string }): void {
+    const termination = result.termination?.type;
+
+    // Finished tasks have nothing left to resume
+    if (termination === 'complete' || termination === 'skipped') {
+      this.clear(taskId);
+      return;
+    }
+
+    // A session that broke (error, timeout, stuck) is not worth continuing
+    const broken = !termination && !result.incomplete;
+    if (!result.sessionId || (broken && this.config.freshAfterFailure)) {
+      this.clear(taskId);
+      return;
+    }
+
+    const previous = this.sessions.get(taskId);
+    const sameSession = previous?.sessionId === result.sessionId;
+
+    this.sessions.set(taskId, {
+      taskId,
+      sessionId: result.sessionId,
+      approach: context.approach,
+      cwd: context.cwd,
+      turns: (sameSession ? previous!.turns : 0) + (result.usage?.numTurns || 0),
+      attempts: (sameSession ? previous!.attempts : 0) + 1,
+      updatedAt: new Date().toISOString(),
+    });
+    this.save();
+  }
+
+  /**
+   * Forget a task's session
+   */
+  clear(taskId: string): void {
+    if (this.sessions.delete(taskId)) {
+      this.save();
+    }
+  }
+
+  get(taskId: string): TaskSession | undefined {
+    return this.sessions.get(taskId);
+  }
+
+  private load(): void {
+    try {
+      if (!existsSync(SESSIONS_FILE)) return;
+
+      const entries = JSON.parse(readFileSync(SESSIONS_FILE, 'utf-8')) as TaskSession[];
+      const cutoff = Date.now() - SESSION_TTL_MS;
+      for (const entry of entries) {
+        if (new Date(entry.updatedAt).getTime() >= cutoff) {
+          this.sessions.set(entry.taskId, entry);
+        }
+      }
+    } catch (err) {
+      console.log(`[Sessions] Failed to load: ${(err as Error).message}`);
+    }
+  }
+
+  private save(): void {
+    try {
+      writeFileSync(SESSIONS_FILE, JSON.stringify([...this.sessions.values()], null, 2));
+    } catch (err) {
+      console.log(`[Sessions] Failed to save: ${(err as Error).message}`);
+    }
+  }
+}
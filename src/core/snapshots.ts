@@ -0,0 +1,232 @@
+/**
+ * Cycle Snapshots
+ *
+ * Sessions edit the goal's working directory directly, so a failed or
+ * stuck cycle can leave half-finished edits for the next attempt to trip
+ * over. Before each cycle the working tree is captured as a commit that
+ * touches neither the index nor any branch (built from a temporary index
+ * and kept alive by a ref under refs/nexus/). Afterwards:
+ * - the cycle's diff (including new untracked files) is saved under
+ *   AGENT_DIR/diffs for review
+ * - depending on the rollback policy, a failed cycle's edits are undone
+ *   and any commits it made are dropped from the branch
+ *
+ * Ignored files (node_modules, build output) are not captured. Diffs and
+ * rollback are limited to the working directory: when it is a subdirectory
+ * of the repository, changes elsewhere (a human, another goal, a merged
+ * worktree) are left alone.
+ */
+
+import { spawn } from 'child_process';
+import { existsSync, mkdirSync, readdirSync, realpathSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { join, relative } from 'path';
+import { tmpdir } from 'os';
+import { randomBytes } from 'crypto';
+import { DIFFS_DIR } from './config.js';
+
+/** Saved diffs beyond this many are pruned, oldest first */
+const MAX_SAVED_DIFFS = 500;
+
+const REF_PREFIX = 'refs/nexus';
+
+/**
+ * When a cycle's edits are undone:
+ * - never    keep everything (diffs are still saved)
+ * - trip     only when the cycle tripped the circuit breaker
+ * - failure  whenever the attempt failed: errors, timeouts, stuck
+ *            sessions, failed acceptance checks or a breaker trip
+ */
+export type RollbackPolicy = 'never' | 'trip' | 'failure';
+
+export interface Snapshot {
+  /** Repository root */
+  root: string;
+  /** Pathspec of the working directory, relative to root */
+  path: string;
+  /** Commit checked out when the snapshot was taken */
+  head: string;
+  branch: string;
+  /** Commit holding the working tree as it was */
+  commit: string;
+  /** Ref name suffix (task id slug) */
+  name: string;
+  takenAt: string;
+}
+
+export interface CycleDiff {
+  /** Commit holding the working tree after the cycle */
+  commit: string;
+  patch: string;
+  /** Files changed, added or removed */
+  files: string[];
+}
+
+export class SnapshotManager {
+  private diffsDir: string;
+
+  constructor(diffsDir: string = DIFFS_DIR) {
+    this.diffsDir = diffsDir;
+  }
+
+  /**
+   * Capture a working tree; null outside a git repository or before its first commit
+   */
+  async take(dir: string, name: string): Promise<Snapshot | null> {
+    if (!existsSync(dir)) return null;
+
+    try {
+      const root = (await runGit(dir, ['rev-parse', '--show-toplevel'])).trim();
+      const path = relative(root, realpathSync(dir)) || '.';
+      const head = (await runGit(root, ['rev-parse', 'HEAD'])).trim();
+      const branch = (await runGit(root, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+      const slug = name.replace(/[^A-Za-z0-9._-]/g, '-');
+
+      const commit = await commitWorkingTree(root, head, `nexus snapshot before ${name}`);
+      await runGit(root, ['update-ref', `${REF_PREFIX}/snapshots/${slug}`, commit]);
+
+      return { root, path, head, branch, commit, name: slug, takenAt: new Date().toISOString() };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Everything the cycle changed since the snapshot, committed or not
+   */
+  async diff(snapshot: Snapshot): Promise<CycleDiff> {
+    const commit = await commitWorkingTree(snapshot.root, snapshot.head, `nexus snapshot after ${snapshot.name}`);
+    const patch = await runGit(snapshot.root, ['diff', snapshot.commit, commit, '--', snapshot.path]);
+    const files = (await runGit(snapshot.root, ['diff', '--name-only', snapshot.commit, commit, '--', snapshot.path]))
+      .split('\n')
+      .filter(Boolean);
+
+    return { commit, patch, files };
+  }
+
+  /**
+   * Put the working directory back the way it was at the snapshot
+   *
+   * Commits the cycle made on the same branch are dropped (the branch is
+   * reset, not rewritten elsewhere). The undone state stays reachable at
+   * refs/nexus/rolled-back/<name>. Changes that were staged before the
+   * cycle come back unstaged. Files outside the working directory are
+   * not touched.
+   */
+  async restore(snapshot: Snapshot, after: CycleDiff): Promise<void> {
+    const { root, path } = snapshot;
+
+    const branch = (await runGit(root, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+    if (branch !== snapshot.branch) {
+      throw new Error(`Branch changed from ${snapshot.branch} to ${branch} - not rolling back`);
+    }
+
+    await runGit(root, ['update-ref', `${REF_PREFIX}/rolled-back/${snapshot.name}`, after.commit]);
+
+    const head = (await runGit(root, ['rev-parse', 'HEAD'])).trim();
+    if (head !== snapshot.head) {
+      await runGit(root, ['reset', '-q', snapshot.head]);
+    }
+
+    // Files the cycle created; checkout only restores what the snapshot had
+    const added = (await runGit(root, ['diff', '--name-only', '--diff-filter=A', snapshot.commit, after.commit, '--', path]))
+      .split('\n')
+      .filter(Boolean);
+    for (const file of added) {
+      rmSync(join(root, file), { force: true });
+    }
+
+    await runGit(root, ['checkout', snapshot.commit, '--', path]);
+    await runGit(root, ['reset', '-q', '--', path]);
+  }
+
+  /**
+   * Keep a cycle's diff for review; returns the file path
+   */
+  save(label: string, header: Record<string, string>, patch: string): string {
+    mkdirSync(this.diffsDir, { recursive: true });
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const slug = label.replace(/[^A-Za-z0-9._-]/g, '-');
+    const file = join(this.diffsDir, `${stamp}-${slug}.diff`);
+    const lines = Object.entries(header).map(([key, value]) => `# ${key}: ${value}`);
+
+    writeFileSync(file, `${lines.join('\n')}\n\n${patch}`);
+    this.prune();
+    return file;
+  }
+
+  /**
+   * Saved diff files, oldest first
+   */
+  list(): string[] {
+    if (!existsSync(this.diffsDir)) return [];
+    return readdirSync(this.diffsDir).filter(f => f.endsWith('.diff')).sort();
+  }
+
+  private prune(): void {
+    const files = this.list();
+    for (const file of files.slice(0, Math.max(0, files.length - MAX_SAVED_DIFFS))) {
+      rmSync(join(this.diffsDir, file), { force: true });
+    }
+  }
+}
+
+/**
+ * Should a cycle with this outcome be rolled back?
+ */
+export function shouldRollback(policy: RollbackPolicy, outcome: { failed: boolean; tripped: boolean }): boolean {
+  switch (policy) {
+    case 'failure': return outcome.failed || outcome.tripped;
+    case 'trip': return outcome.tripped;
+    default: return false;
+  }
+}
+
+/**
+ * Commit the working tree (tracked and untracked files) without touching
+ * the real index, HEAD or any branch
+ */
+async function commitWorkingTree(root: string, parent: string, message: string): Promise<string> {
+  const indexFile = join(tmpdir(), `nexus-index-${randomBytes(4).toString('hex')}`);
+  const env = {
+    ...process.env,
+    GIT_INDEX_FILE: indexFile,
+    GIT_AUTHOR_NAME: 'nexus',
+    GIT_AUTHOR_EMAIL: 'nexus@localhost',
+    GIT_COMMITTER_NAME: 'nexus',
+    GIT_COMMITTER_EMAIL: 'nexus@localhost',
+  };
+
+  try {
+    await runGit(root, ['read-tree', parent], env);
+    await runGit(root, ['add', '-A', '.'], env);
+    const tree = (await runGit(root, ['write-tree'], env)).trim();
+    return (await runGit(root, ['commit-tree', tree, '-p', parent, '-m', message], env)).trim();
+  } finally {
+    if (existsSync(indexFile)) unlinkSync(indexFile);
+  }
+}
+
+/**
+ * Run a git command and return stdout
+ */
+function runGit(cwd: string, args: string[], env: NodeJS.ProcessEnv = process.env): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn('git', args, { cwd, env });
+    let stdout = '';
+    let stderr = '';
+
+    proc.stdout.on('data', data => { stdout += data.toString(); });
+    proc.stderr.on('data', data => { stderr += data.toString(); });
+
+    proc.on('close', code => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(stderr || stdout || `git ${args[0]} failed with code ${code}`));
+      }
+    });
+
+    proc.on('error', reject);
+  });
+}
@@ -12,10 +12,7 @@
 
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
-import { homedir } from 'os';
-
-const AGENT_DIR = join(homedir(), '.hutch-agent');
-const CHECKPOINT_DIR = join(AGENT_DIR, 'checkpoints');
+import { CHECKPOINTS_DIR as CHECKPOINT_DIR, CHECKPOINT_INTERVAL_MS } from './config.js';
 
 /**
  * Agent lifecycle states
@@ -117,7 +114,7 @@ export interface StateMachineConfig {
 
 const DEFAULT_CONFIG: StateMachineConfig = {
   autoCheckpoint: true,
-  checkpointIntervalMs: 60000, // 1 minute
+  checkpointIntervalMs: CHECKPOINT_INTERVAL_MS,
   maxHistorySize: 100,
 };
 
@@ -155,6 +152,7 @@ export class StateMachine {
   private checkpointId: string;
   private checkpointTimer: NodeJS.Timeout | null = null;
   private version: number = 0;
+  private interruptedState: AgentState | null = null;
 
   constructor(config: Partial<StateMachineConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -180,9 +178,15 @@ export class StateMachine {
       this.checkpointId = checkpoint.id;
 
       // If we were in an active state, move to error for recovery
-      if (['planning', 'executing', 'verifying'].includes(this.state)) {
+      if (['planning', 'executing', 'verifying', 'reflecting'].includes(this.state)) {
+        this.interruptedState = this.state;
         this.state = 'error';
-        this.context.lastError = 'Recovered from crash - previous state was active';
+        this.context.lastError = `Recovered from crash - previous state was ${this.interruptedState}`;
+      }
+
+      // A clean shutdown ends the previous run; this one starts idle
+      if (this.state === 'shutdown') {
+        this.state = 'idle';
       }
     }
 
@@ -250,8 +254,9 @@ export class StateMachine {
       this.config.onStateChange(from, to, this.context);
     }
 
-    // Checkpoint on important transitions
-    if (['blocked', 'error', 'shutdown'].includes(to)) {
+    // Checkpoint on important transitions (executing/idle bracket the
+    // window in which a crash leaves a task half done)
+    if (['executing', 'idle', 'blocked', 'error', 'shutdown'].includes(to)) {
       this.saveCheckpoint();
     }
 
@@ -300,6 +305,13 @@ export class StateMachine {
     return this.transitions.slice(-n);
   }
 
+  /**
+   * Get the active state the previous process crashed in (if any)
+   */
+  getInterruptedState(): AgentState | null {
+    return this.interruptedState;
+  }
+
   /**
    * Check if in error state and can recover
    */
@@ -455,7 +467,7 @@ export function createStateMachine(
 ): StateMachine {
   return new StateMachine({
     autoCheckpoint: true,
-    checkpointIntervalMs: 60000,
+    checkpointIntervalMs: CHECKPOINT_INTERVAL_MS,
     maxHistorySize: 100,
     onStateChange,
   });
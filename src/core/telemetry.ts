@@ -9,13 +9,16 @@ import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
 import {
   AGENT_DIR,
-  COST_TRACKING_ENABLED,
   TOKEN_COST_INPUT,
   TOKEN_COST_OUTPUT,
+  getConfig,
 } from './config.js';
 
 const TELEMETRY_FILE = join(AGENT_DIR, 'telemetry.json');
 
+/** Upper bounds of the cycle duration histogram buckets */
+export const CYCLE_DURATION_BUCKETS_MS = [10_000, 30_000, 60_000, 120_000, 300_000, 600_000, 1_200_000, 1_800_000, 3_600_000];
+
 // ============================================================
 // Types
 // ============================================================
@@ -28,9 +31,17 @@ export interface CycleMetrics {
   success: boolean;
   tokensInput: number;
   tokensOutput: number;
+  tokensCacheRead?: number;
+  /** Cost reported by the session; estimated from tokens when absent */
+  costCents?: number;
   toolsUsed: string[];
   approach: string;
   errorType?: string;
+  goalId?: string;
+  taskId?: string;
+  /** Model the session ran on, and why the router picked it */
+  model?: string;
+  modelReason?: string;
 }
 
 export interface DailyStats {
@@ -44,9 +55,27 @@ export interface DailyStats {
   estimatedCostCents: number;
   toolUsage: Record<string, number>;
   approachUsage: Record<string, number>;
+  modelUsage?: Record<string, number>;
   errorTypes: Record<string, number>;
 }
 
+export interface GoalSpend {
+  cycles: number;
+  tokensInput: number;
+  tokensOutput: number;
+  estimatedCostCents: number;
+}
+
+/**
+ * Cycle durations per bucket; the extra last count is for cycles over
+ * the largest bound
+ */
+export interface DurationHistogram {
+  bucketCounts: number[];
+  sumMs: number;
+  count: number;
+}
+
 export interface TelemetryData {
   version: number;
   startedAt: number;
@@ -60,11 +89,19 @@ export interface TelemetryData {
     tokensInput: number;
     tokensOutput: number;
     estimatedCostCents: number;
+    // Only counted since these fields were added
+    tokensCacheRead?: number;
+    approaches?: Record<string, { successes: number; failures: number }>;
+    toolUsage?: Record<string, number>;
+    cycleDuration?: DurationHistogram;
   };
 
   // Daily breakdown
   daily: DailyStats[];
 
+  // Lifetime spend per goal (for goal budgets)
+  goals: Record<string, GoalSpend>;
+
   // Recent cycles (for debugging)
   recentCycles: CycleMetrics[];
 }
@@ -86,6 +123,7 @@ const DEFAULT_DATA: TelemetryData = {
     estimatedCostCents: 0,
   },
   daily: [],
+  goals: {},
   recentCycles: [],
 };
 
@@ -129,10 +167,10 @@ export class TelemetryManager {
    * Record a cycle completion
    */
   recordCycle(metrics: CycleMetrics): void {
-    if (!COST_TRACKING_ENABLED) return;
+    if (!getConfig().features.costTracking) return;
 
-    // Calculate cost
-    const costCents = this.calculateCost(metrics.tokensInput, metrics.tokensOutput);
+    // Prefer the session's reported cost over the flat-rate estimate
+    const costCents = metrics.costCents ?? this.calculateCost(metrics.tokensInput, metrics.tokensOutput);
 
     // Update lifetime stats
     this.data.lifetime.cycles++;
@@ -144,6 +182,7 @@ export class TelemetryManager {
     this.data.lifetime.tokensInput += metrics.tokensInput;
     this.data.lifetime.tokensOutput += metrics.tokensOutput;
     this.data.lifetime.estimatedCostCents += costCents;
+    this.recordLifetimeBreakdown(metrics);
 
     // Update daily stats
     const today = new Date().toISOString().split('T')[0];
@@ -161,6 +200,7 @@ export class TelemetryManager {
         estimatedCostCents: 0,
         toolUsage: {},
         approachUsage: {},
+        modelUsage: {},
         errorTypes: {},
       };
       this.data.daily.push(dailyStats);
@@ -190,11 +230,31 @@ export class TelemetryManager {
     // Track approach usage
     dailyStats.approachUsage[metrics.approach] = (dailyStats.approachUsage[metrics.approach] || 0) + 1;
 
+    // Track model usage
+    if (metrics.model) {
+      const modelUsage = dailyStats.modelUsage ||= {};
+      modelUsage[metrics.model] = (modelUsage[metrics.model] || 0) + 1;
+    }
+
     // Track error types
     if (metrics.errorType) {
       dailyStats.errorTypes[metrics.errorType] = (dailyStats.errorTypes[metrics.errorType] || 0) + 1;
     }
 
+    // Track per-goal spend
+    if (metrics.goalId) {
+      const goalSpend = this.data.goals[metrics.goalId] ||= {
+        cycles: 0,
+        tokensInput: 0,
+        tokensOutput: 0,
+        estimatedCostCents: 0,
+      };
+      goalSpend.cycles++;
+      goalSpend.tokensInput += metrics.tokensInput;
+      goalSpend.tokensOutput += metrics.tokensOutput;
+      goalSpend.estimatedCostCents += costCents;
+    }
+
     // Store recent cycle
     this.data.recentCycles.push(metrics);
     if (this.data.recentCycles.length > 100) {
@@ -204,6 +264,37 @@ export class TelemetryManager {
     this.dirty = true;
   }
 
+  /**
+   * Never-reset counters by approach and tool, and the duration histogram
+   */
+  private recordLifetimeBreakdown(metrics: CycleMetrics): void {
+    const lifetime = this.data.lifetime;
+    lifetime.tokensCacheRead = (lifetime.tokensCacheRead || 0) + (metrics.tokensCacheRead || 0);
+
+    const approaches = lifetime.approaches ||= {};
+    const approach = approaches[metrics.approach] ||= { successes: 0, failures: 0 };
+    if (metrics.success) {
+      approach.successes++;
+    } else {
+      approach.failures++;
+    }
+
+    const toolUsage = lifetime.toolUsage ||= {};
+    for (const tool of metrics.toolsUsed) {
+      toolUsage[tool] = (toolUsage[tool] || 0) + 1;
+    }
+
+    const histogram = lifetime.cycleDuration ||= {
+      bucketCounts: new Array(CYCLE_DURATION_BUCKETS_MS.length + 1).fill(0),
+      sumMs: 0,
+      count: 0,
+    };
+    const bucket = CYCLE_DURATION_BUCKETS_MS.findIndex(bound => metrics.durationMs <= bound);
+    histogram.bucketCounts[bucket === -1 ? CYCLE_DURATION_BUCKETS_MS.length : bucket]++;
+    histogram.sumMs += metrics.durationMs;
+    histogram.count++;
+  }
+
   /**
    * Calculate cost in cents
    */
@@ -246,6 +337,34 @@ export class TelemetryManager {
     };
   }
 
+  /**
+   * Get spend over the last `days` days (UTC, including today)
+   */
+  getSpendSince(days: number): { costCents: number; tokens: number } {
+    const cutoff = new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    let costCents = 0;
+    let tokens = 0;
+    for (const day of this.data.daily) {
+      if (day.date >= cutoff) {
+        costCents += day.estimatedCostCents;
+        tokens += day.tokensInput + day.tokensOutput;
+      }
+    }
+
+    return { costCents, tokens };
+  }
+
+  /**
+   * Get lifetime spend for a goal
+   */
+  getGoalSpend(goalId: string): { costCents: number; tokens: number } {
+    const spend = this.data.goals[goalId];
+    return spend
+      ? { costCents: spend.estimatedCostCents, tokens: spend.tokensInput + spend.tokensOutput }
+      : { costCents: 0, tokens: 0 };
+  }
+
   /**
    * Get tool usage stats
    */
@@ -344,6 +463,26 @@ export class TelemetryManager {
   }
 }
 
+// ============================================================
+// Helpers
+// ============================================================
+
+/**
+ * Bucket a cycle error message into a coarse type for error stats
+ */
+export function classifyError(error: string): string {
+  const message = error.toLowerCase();
+
+  if (message.startsWith('stuck')) return 'stuck';
+  if (message.startsWith('timeout')) return 'timeout';
+  if (message.startsWith('blocked')) return 'blocked';
+  if (message.includes('without calling')) return 'no_termination';
+  if (message.includes('merge')) return 'merge_conflict';
+  if (message.includes('rate limit') || message.includes('429')) return 'rate_limit';
+  if (message.startsWith('exit code') || message.includes('exited')) return 'exit_code';
+  return 'other';
+}
+
 // ============================================================
 // Singleton
 // ============================================================
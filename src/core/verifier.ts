@@ -0,0 +1,173 @@
+/**
+ * Acceptance Verifier
+ *
+ * A session calling complete_task is a claim, not proof. Tasks can list
+ * acceptance checks in their goal file; the loop runs them in the
+ * verifying phase and only records the task as completed when every check
+ * passes. Failed checks are reported back to the session so it can fix
+ * the work and try again.
+ */
+
+import { spawn } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import { getConfig } from './config.js';
+import type { AcceptanceCheck } from '../scheduler/dag-scheduler.js';
+
+/** Command output kept per check (the tail, where errors usually are) */
+const MAX_DETAIL_CHARS = 2000;
+
+export interface CheckResult {
+  name: string;
+  type: AcceptanceCheck['type'];
+  passed: boolean;
+  /** Why it failed, or command output */
+  detail: string;
+  durationMs: number;
+}
+
+export interface VerificationResult {
+  passed: boolean;
+  checks: CheckResult[];
+}
+
+export class Verifier {
+  private timeoutMs: number;
+
+  constructor(timeoutMs: number = getConfig().verification.timeoutMs) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Run every check (they don't short-circuit, so one report covers them all)
+   */
+  async verify(checks: AcceptanceCheck[], context: { cwd: string; output: string }): Promise<VerificationResult> {
+    const results: CheckResult[] = [];
+
+    for (const check of checks) {
+      const startedAt = Date.now();
+      const { passed, detail } = await this.runCheck(check, context).catch((err: Error) => ({
+        passed: false,
+        detail: `Check could not run: ${err.message}`,
+      }));
+
+      results.push({
+        name: describeCheck(check),
+        type: check.type,
+        passed,
+        detail,
+        durationMs: Date.now() - startedAt,
+      });
+    }
+
+    return { passed: results.every(r => r.passed), checks: results };
+  }
+
+  private async runCheck(
+    check: AcceptanceCheck,
+    context: { cwd: string; output: string }
+  ): Promise<{ passed: boolean; detail: string }> {
+    switch (check.type) {
+      case 'command':
+      case 'test': {
+        const run = await runShell(check.command, context.cwd, check.timeoutMs ?? this.timeoutMs);
+        return { passed: run.exitCode === 0, detail: run.output };
+      }
+
+      case 'file': {
+        const path = resolve(context.cwd, check.path);
+        if (!existsSync(path)) {
+          return { passed: false, detail: `${check.path} does not exist` };
+        }
+        if (check.contains && !new RegExp(check.contains, 'm').test(readFileSync(path, 'utf-8'))) {
+          return { passed: false, detail: `${check.path} does not match /${check.contains}/` };
+        }
+        return { passed: true, detail: '' };
+      }
+
+      case 'output': {
+        const passed = new RegExp(check.pattern, check.flags).test(context.output);
+        return { passed, detail: passed ? '' : `Session output does not match /${check.pattern}/${check.flags || ''}` };
+      }
+
+      default:
+        return { passed: false, detail: `Unknown check type: ${(check as { type: string }).type}` };
+    }
+  }
+}
+
+/**
+ * Prompt section reporting failed checks to the retrying session
+ */
+export function formatFailures(result: VerificationResult): string {
+  const failed = result.checks.filter(check => !check.passed);
+  const details = failed
+    .map(check => `### ✗ ${check.name}${check.detail ? '\n```\n' + check.detail + '\n```' : ''}`)
+    .join('\n\n');
+
+  return `## Acceptance Checks Failed
+You reported this task complete, but ${failed.length} of ${result.checks.length} checks did not pass:
+
+${details}
+
+Fix the problems, run the checks yourself, then call complete_task again.
+`;
+}
+
+/**
+ * Label for a check: its name, or what it runs
+ */
+export function describeCheck(check: AcceptanceCheck): string {
+  if (check.name) return check.name;
+
+  switch (check.type) {
+    case 'command': return `command: ${check.command}`;
+    case 'test': return `tests: ${check.command}`;
+    case 'file': return `file: ${check.path}`;
+    case 'output': return `output: /${check.pattern}/`;
+    default: return 'unknown check';
+  }
+}
+
+/**
+ * Run a shell command, returning its exit code and combined output tail
+ */
+function runShell(command: string, cwd: string, timeoutMs: number): Promise<{ exitCode: number | null; output: string }> {
+  return new Promise((resolve, reject) => {
+    // Own process group, so a timeout also stops whatever the command started
+    const proc = spawn('sh', ['-c', command], { cwd, detached: true });
+    let output = '';
+    let timedOut = false;
+
+    const append = (data: Buffer) => {
+      output = (output + data.toString()).slice(-MAX_DETAIL_CHARS);
+    };
+    proc.stdout.on('data', append);
+    proc.stderr.on('data', append);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-proc.pid!, 'SIGTERM');
+      } catch {
+        proc.kill('SIGTERM');
+      }
+    }, timeoutMs);
+
+    proc.on('close', code => {
+      clearTimeout(timer);
+      const trimmed = output.trim();
+      resolve({
+        exitCode: timedOut ? null : code,
+        output: timedOut
+          ? `Timed out after ${timeoutMs / 1000}s\n${trimmed}`.trim()
+          : trimmed || (code === 0 ? '' : `Exit code: ${code}`),
+      });
+    });
+
+    proc.on('error', err => {
+      clearTimeout(timer);
+      reject(err);
+    });
+  });
+}
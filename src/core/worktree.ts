@@ -0,0 +1,209 @@
+/**
+ * Git Worktree Manager
+ *
+ * Gives each parallel task its own checkout so concurrent Claude
+ * sessions never edit the same files:
+ * - One branch + worktree per task under <repo>/.nexus/worktrees, where
+ *   <repo> is the top level even when the goal works in a subdirectory
+ * - Leftover changes are committed before merging
+ * - Branches merge back into the base branch one at a time
+ * - Conflicting merges are aborted and reported as failures
+ */
+
+import { spawn } from 'child_process';
+import { existsSync, readFileSync, appendFileSync, mkdirSync, realpathSync } from 'fs';
+import { join, relative, resolve } from 'path';
+
+const WORKTREE_ROOT = join('.nexus', 'worktrees');
+const BRANCH_PREFIX = 'nexus/';
+
+export interface Worktree {
+  taskId: string;
+  /** Absolute path of the worktree checkout */
+  path: string;
+  /** The working directory's counterpart inside the checkout */
+  cwd: string;
+  /** Task branch checked out in the worktree */
+  branch: string;
+  /** Branch the task branch will be merged into */
+  baseBranch: string;
+}
+
+export interface MergeResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Where the repository lives, as seen from the working directory
+ */
+interface RepoLayout {
+  /** Top level of the main checkout */
+  toplevel: string;
+  /** Shared .git directory (holds info/exclude) */
+  gitDir: string;
+}
+
+export class WorktreeManager {
+  private repoDir: string;
+  private layout: RepoLayout | null = null;
+
+  constructor(repoDir: string) {
+    this.repoDir = repoDir;
+  }
+
+  /**
+   * Check whether the working directory is a git repository
+   */
+  async isGitRepo(): Promise<boolean> {
+    if (!existsSync(this.repoDir)) return false;
+
+    try {
+      const inside = await this.runGit(this.repoDir, ['rev-parse', '--is-inside-work-tree']);
+      return inside.trim() === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Create a fresh worktree and branch for a task
+   */
+  async create(taskId: string): Promise<Worktree> {
+    const slug = taskId.replace(/[^A-Za-z0-9._-]/g, '-');
+    const branch = `${BRANCH_PREFIX}${slug}`;
+    const { toplevel, gitDir } = await this.getLayout();
+    const path = join(toplevel, WORKTREE_ROOT, slug);
+    const cwd = join(path, relative(toplevel, realpathSync(this.repoDir)));
+    const baseBranch = (await this.runGit(this.repoDir, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+
+    this.excludeWorktreeRoot(gitDir);
+
+    // Clean up anything left behind by an interrupted run
+    if (existsSync(path)) {
+      await this.runGit(this.repoDir, ['worktree', 'remove', '--force', path]).catch(() => '');
+    }
+    await this.runGit(this.repoDir, ['branch', '-D', branch]).catch(() => '');
+
+    mkdirSync(join(toplevel, WORKTREE_ROOT), { recursive: true });
+    await this.runGit(this.repoDir, ['worktree', 'add', '-b', branch, path, 'HEAD']);
+
+    return { taskId, path, cwd, branch, baseBranch };
+  }
+
+  /**
+   * Commit anything the session left uncommitted in the worktree
+   */
+  async commitAll(worktree: Worktree, message: string): Promise<void> {
+    const status = await this.runGit(worktree.path, ['status', '--porcelain']);
+    if (!status.trim()) return;
+
+    await this.runGit(worktree.path, ['add', '-A']);
+    await this.runGit(worktree.path, ['commit', '-m', message]);
+  }
+
+  /**
+   * Merge a task branch back into its base branch
+   */
+  async merge(worktree: Worktree): Promise<MergeResult> {
+    try {
+      const current = (await this.runGit(this.repoDir, ['rev-parse', '--abbrev-ref', 'HEAD'])).trim();
+      if (current !== worktree.baseBranch) {
+        return {
+          success: false,
+          error: `Base branch changed from ${worktree.baseBranch} to ${current} - not merging ${worktree.branch}`,
+        };
+      }
+
+      await this.runGit(this.repoDir, [
+        'merge', '--no-ff', '-m', `Merge ${worktree.branch} (task ${worktree.taskId})`, worktree.branch,
+      ]);
+      return { success: true };
+    } catch (err: any) {
+      await this.runGit(this.repoDir, ['merge', '--abort']).catch(() => '');
+      return { success: false, error: `Merge of ${worktree.branch} failed: ${err.message.trim()}` };
+    }
+  }
+
+  /**
+   * Uncommitted changes in a checkout: the diff against HEAD plus any
+   * untracked files. Empty outside a git repository.
+   */
+  async diff(dir: string = this.repoDir): Promise<string> {
+    try {
+      const tracked = await this.runGit(dir, ['diff', 'HEAD']);
+      const untracked = (await this.runGit(dir, ['ls-files', '--others', '--exclude-standard']))
+        .split('\n')
+        .filter(Boolean)
+        .map(file => `Untracked: ${file}`);
+
+      return [tracked.trim(), ...untracked].filter(Boolean).join('\n');
+    } catch {
+      return '';
+    }
+  }
+
+  /**
+   * Remove a worktree and its branch
+   */
+  async remove(worktree: Worktree): Promise<void> {
+    await this.runGit(this.repoDir, ['worktree', 'remove', '--force', worktree.path]).catch(() => '');
+    await this.runGit(this.repoDir, ['branch', '-D', worktree.branch]).catch(() => '');
+  }
+
+  /**
+   * Top level and .git directory of the repository, which the working
+   * directory may only be a subdirectory of (resolved once)
+   */
+  private async getLayout(): Promise<RepoLayout> {
+    if (!this.layout) {
+      const [toplevel, gitDir] = (await this.runGit(this.repoDir, ['rev-parse', '--show-toplevel', '--git-common-dir']))
+        .trim()
+        .split('\n');
+      this.layout = { toplevel, gitDir: resolve(this.repoDir, gitDir) };
+    }
+    return this.layout;
+  }
+
+  /**
+   * Keep the worktree directory out of `git status` in the main checkout
+   */
+  private excludeWorktreeRoot(gitDir: string): void {
+    const excludeFile = join(gitDir, 'info', 'exclude');
+    const pattern = '/.nexus/';
+
+    try {
+      const current = existsSync(excludeFile) ? readFileSync(excludeFile, 'utf-8') : '';
+      if (!current.split('\n').includes(pattern)) {
+        mkdirSync(join(gitDir, 'info'), { recursive: true });
+        appendFileSync(excludeFile, `${current && !current.endsWith('\n') ? '\n' : ''}${pattern}\n`);
+      }
+    } catch {
+      // Not fatal - the worktree still works, it just shows as untracked
+    }
+  }
+
+  /**
+   * Run a git command and return stdout
+   */
+  private runGit(cwd: string, args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const proc = spawn('git', args, { cwd });
+      let stdout = '';
+      let stderr = '';
+
+      proc.stdout.on('data', data => { stdout += data.toString(); });
+      proc.stderr.on('data', data => { stderr += data.toString(); });
+
+      proc.on('close', code => {
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(stderr || stdout || `git ${args[0]} failed with code ${code}`));
+        }
+      });
+
+      proc.on('error', reject);
+    });
+  }
+}
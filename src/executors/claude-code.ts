@@ -0,0 +1,251 @@
+/**
+ * Claude Code Executor
+ *
+ * Runs a cycle by spawning the `claude` CLI with stream-json output.
+ * HutchMem hooks automatically handle:
+ * - Context injection (SessionStart)
+ * - Action recording (PostToolUse)
+ * - Session summary (Stop)
+ *
+ * Goals with a sandbox profile run it under bubblewrap instead.
+ */
+
+import { spawn } from 'child_process';
+import { existsSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { getMcpConfig } from '../tools/mcp-server.js';
+import { getConfig, loadEnvFile } from '../core/config.js';
+import { StreamJsonParser } from './stream-json.js';
+import { NetworkGate } from './sandbox-net.js';
+import { bubblewrapArgs, findBubblewrap, findFilesystemViolations, sandboxEnv } from '../core/sandbox.js';
+import type { Executor, ExecutorRequest, ExecutorResult } from '../core/cycle.js';
+
+/**
+ * Check if HutchMem worker is healthy
+ */
+async function checkHutchMemHealth(): Promise<boolean> {
+  try {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 3000);
+
+    const response = await fetch(`${getConfig().hutchMemApiUrl}/health`, {
+      signal: controller.signal,
+    });
+    clearTimeout(timeout);
+
+    if (response.ok) {
+      const data = await response.json().catch(() => ({})) as { uptime?: string };
+      console.log(`[Cycle] ✓ HutchMem healthy (uptime: ${data.uptime || 'unknown'})`);
+      return true;
+    }
+    console.log(`[Cycle] ⚠️ HutchMem returned ${response.status}`);
+    return false;
+  } catch (err: any) {
+    // Not critical - agent can work without memory
+    console.log(`[Cycle] ⚠️ HutchMem not available (${err.message?.slice(0, 50) || 'timeout'})`);
+    return false;
+  }
+}
+
+/**
+ * Ensure HutchMem plugin symlinks exist
+ */
+function ensureHutchMemSymlinks(): void {
+  const pluginDir = join(homedir(), '.claude', 'plugins', 'marketplaces', 'thedotmack');
+
+  if (!existsSync(pluginDir)) {
+    console.log(`[Cycle] Creating HutchMem plugin symlink directory: ${pluginDir}`);
+    try {
+      mkdirSync(pluginDir, { recursive: true });
+      // The actual symlinks should be created during setup
+      console.log(`[Cycle] ⚠️ HutchMem plugin directory created but symlinks may need manual setup`);
+    } catch (err: any) {
+      console.log(`[Cycle] ⚠️ Could not create plugin directory: ${err.message}`);
+    }
+  }
+}
+
+export class ClaudeCodeExecutor implements Executor {
+  readonly name = 'claude-code';
+
+  /**
+   * Run Claude Code CLI with a prompt using streaming JSON output
+   *
+   * Uses --output-format stream-json for real-time visibility into what
+   * Claude is doing (tool calls, results, etc.)
+   */
+  async run(request: ExecutorRequest): Promise<ExecutorResult> {
+    const { prompt, maxCycleTimeMs, stuckTimeoutMs, sandbox } = request;
+
+    const bwrap = sandbox ? findBubblewrap() : null;
+    if (sandbox && !bwrap) {
+      // Never fall back to running unconfined (checked before touching anything)
+      return {
+        success: false,
+        output: '',
+        error: 'Goal requires a sandbox but bubblewrap (bwrap) is not installed',
+        usage: { tokensInput: 0, tokensOutput: 0, tokensCacheRead: 0, toolsUsed: [] },
+      };
+    }
+
+    // Ensure plugin symlinks exist (one-time setup)
+    ensureHutchMemSymlinks();
+
+    // Pre-cycle health check (non-blocking)
+    await checkHutchMemHealth();
+
+    // Progress is logged every 30s; short stuck timeouts are checked more often
+    const checkIntervalMs = Math.min(30000, stuckTimeoutMs);
+
+    const cwd = request.cwd;
+    mkdirSync(cwd, { recursive: true });
+
+    // Without network, connections leave only through the gate's proxy
+    // (HutchMem is forwarded so memory hooks keep working)
+    let gate: NetworkGate | null = null;
+    let bridge: { command: string[]; env: Record<string, string> } | null = null;
+    if (sandbox && !sandbox.network) {
+      const hutchMem = new URL(getConfig().hutchMemApiUrl);
+      const local = ['localhost', '127.0.0.1'].includes(hutchMem.hostname);
+      gate = new NetworkGate(sandbox.allowHosts, local ? [Number(hutchMem.port) || 80] : []);
+      bridge = await gate.start();
+    }
+
+    return new Promise((resolve) => {
+      const args = [
+        '--print',
+        '--verbose',                       // Required for stream-json
+        '--output-format', 'stream-json',  // Real-time streaming JSON
+        '--include-partial-messages',      // See partial messages as they arrive
+        '--dangerously-skip-permissions',
+        '--mcp-config', getMcpConfig(),    // complete_task, block_task, ...
+        '--model', request.model,
+        '--max-turns', String(request.maxTurns),
+        ...(request.resumeSessionId ? ['--resume', request.resumeSessionId] : []),
+        prompt,
+      ];
+
+      const startTime = Date.now();
+      let lastActivityTime = Date.now();
+      console.log(`[Cycle] Running claude in ${cwd}${sandbox ? ` (sandboxed${sandbox.network ? '' : ', no network'})` : ''}`);
+      console.log(`[Cycle] Prompt: ${prompt.slice(0, 200)}...`);
+
+      const env = { ...process.env, ...loadEnvFile() };
+      const command = [...(bridge ? [...bridge.command, '--'] : []), 'claude', ...args];
+      const claude = sandbox
+        ? spawn(bwrap!, bubblewrapArgs(sandbox, command, gate ? [gate.dir] : []), {
+          cwd,
+          stdio: ['pipe', 'pipe', 'pipe'],
+          shell: false,
+          env: { ...sandboxEnv(sandbox, env), ...bridge?.env },
+        })
+        : spawn('claude', args, {
+          cwd,
+          stdio: ['pipe', 'pipe', 'pipe'],
+          shell: false,
+          env,
+        });
+
+      claude.stdin.end();
+
+      let stdout = '';
+      let stderr = '';
+      let resolved = false;
+      let stuckCheckInterval: NodeJS.Timeout;
+      let maxTimeoutId: NodeJS.Timeout;
+      const parser = new StreamJsonParser(request.taskId);
+
+      const cleanup = () => {
+        if (stuckCheckInterval) clearInterval(stuckCheckInterval);
+        if (maxTimeoutId) clearTimeout(maxTimeoutId);
+      };
+
+      const handleResolve = (result: { success: boolean; output: string; error?: string }) => {
+        if (resolved) return;
+        resolved = true;
+        cleanup();
+
+        const finished = parser.finish(result);
+        if (sandbox) {
+          const violations = [...(gate?.violations || []), ...findFilesystemViolations(`${stdout}\n${stderr}`)];
+          if (violations.length > 0) {
+            finished.sandboxViolations = violations;
+          }
+        }
+        gate?.stop();
+        resolve(finished);
+      };
+
+      // Parse streaming JSON output for real-time visibility
+      claude.stdout.on('data', (data) => {
+        const chunk = data.toString();
+        stdout += chunk;
+        lastActivityTime = Date.now();
+        parser.feed(chunk);
+      });
+
+      claude.stderr.on('data', (data) => {
+        const chunk = data.toString();
+        stderr += chunk;
+        lastActivityTime = Date.now();
+        if (chunk.trim()) {
+          console.log(`[Claude:err] ${chunk.trim().slice(0, 200)}`);
+        }
+      });
+
+      claude.on('close', (code) => {
+        const duration = Math.floor((Date.now() - startTime) / 1000);
+        console.log(`[Cycle] Claude exited with code ${code} after ${duration}s (${parser.toolCount} tools used)`);
+
+        handleResolve({
+          success: code === 0,
+          output: parser.getOutput(stdout),
+          error: code !== 0 ? stderr || `Exit code: ${code}` : undefined,
+        });
+      });
+
+      claude.on('error', (err) => {
+        console.log(`[Cycle] Claude spawn error: ${err.message}`);
+        handleResolve({
+          success: false,
+          output: '',
+          error: err.message,
+        });
+      });
+
+      // Stuck detection: no activity for stuckTimeoutMs
+      stuckCheckInterval = setInterval(() => {
+        const timeSinceActivity = Date.now() - lastActivityTime;
+        const elapsed = Math.floor((Date.now() - startTime) / 1000);
+
+        if (timeSinceActivity > stuckTimeoutMs) {
+          console.log(`[Cycle] ⚠️ STUCK: No activity for ${Math.floor(timeSinceActivity / 1000)}s`);
+          console.log(`[Cycle] Last tool: ${parser.lastTool || 'none'}, Tools used: ${parser.toolCount}`);
+          claude.kill('SIGTERM');
+          handleResolve({
+            success: false,
+            output: parser.getOutput(stdout),
+            error: `Stuck - no activity for ${stuckTimeoutMs / 1000}s`,
+          });
+        } else {
+          console.log(`[Cycle] ⏳ ${elapsed}s | Tools: ${parser.toolCount} | Last: ${parser.lastTool || 'starting'}`);
+        }
+      }, checkIntervalMs);
+
+      // Hard timeout
+      maxTimeoutId = setTimeout(() => {
+        if (!resolved) {
+          const elapsed = Math.floor((Date.now() - startTime) / 1000);
+          console.log(`[Cycle] ⏰ Timeout after ${elapsed}s`);
+          claude.kill('SIGTERM');
+          handleResolve({
+            success: false,
+            output: parser.getOutput(stdout),
+            error: `Timeout (${maxCycleTimeMs / 1000}s)`,
+          });
+        }
+      }, maxCycleTimeMs);
+    });
+  }
+}
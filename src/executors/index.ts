@@ -0,0 +1,10 @@
+/**
+ * NEXUS Executors
+ *
+ * Backends that run a cycle's prompt. All implement the Executor
+ * interface from core/cycle.ts.
+ */
+
+export * from './stream-json.js';
+export * from './claude-code.js';
+export * from './scripted.js';
@@ -0,0 +1,211 @@
+/**
+ * Sandbox Network Gate
+ *
+ * A session sandboxed with `network: false` runs in its own network
+ * namespace with nothing but loopback. Two halves connect it back out:
+ *
+ * - NetworkGate (agent side) listens on Unix sockets in a temp directory
+ *   that is bound into the sandbox: an HTTPS proxy that only tunnels to
+ *   allowlisted hosts, plus plain forwards to local services such as the
+ *   HutchMem worker. Refused connections are recorded as violations.
+ *
+ * - The bridge (sandbox side, this file run as a script) listens on the
+ *   sandbox's loopback ports, pipes each connection to the matching
+ *   socket, and starts the real command with HTTPS_PROXY pointing at it.
+ */
+
+import { createServer as createHttpServer, request as httpRequest, Server as HttpServer } from 'http';
+import { createServer, connect, Server } from 'net';
+import { spawn } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { fileURLToPath } from 'url';
+import { isHostAllowed } from '../core/sandbox.js';
+
+/** Port the proxy listens on inside the sandbox (its loopback is private) */
+const PROXY_PORT = 3128;
+
+export interface BridgeSetup {
+  /** Prefix for the sandboxed command: runs the bridge, then `--` command */
+  command: string[];
+  /** Proxy settings for the session */
+  env: Record<string, string>;
+}
+
+export class NetworkGate {
+  /** Socket directory - must be bound into the sandbox */
+  readonly dir: string;
+  /** Refused connections, in order */
+  readonly violations: string[] = [];
+
+  private allowHosts: string[];
+  private forwardPorts: number[];
+  private servers: Array<Server | HttpServer> = [];
+
+  /**
+   * @param forwardPorts local (127.0.0.1) ports to expose inside the sandbox
+   */
+  constructor(allowHosts: string[], forwardPorts: number[] = []) {
+    this.allowHosts = allowHosts;
+    this.forwardPorts = forwardPorts;
+    this.dir = mkdtempSync(join(tmpdir(), 'nexus-net-'));
+  }
+
+  async start(): Promise<BridgeSetup> {
+    const proxySocket = join(this.dir, 'proxy.sock');
+    await this.listen(this.createProxy(), proxySocket);
+
+    const listens = [`${PROXY_PORT}=${proxySocket}`];
+    for (const port of this.forwardPorts) {
+      const socket = join(this.dir, `port-${port}.sock`);
+      await this.listen(createServer(client => pipeTo(client, connect(port, '127.0.0.1'))), socket);
+      listens.push(`${port}=${socket}`);
+    }
+
+    const proxy = `http://127.0.0.1:${PROXY_PORT}`;
+    return {
+      command: [
+        process.execPath,
+        fileURLToPath(import.meta.url),
+        ...listens.flatMap(listen => ['--listen', listen]),
+      ],
+      env: {
+        HTTPS_PROXY: proxy,
+        HTTP_PROXY: proxy,
+        https_proxy: proxy,
+        http_proxy: proxy,
+        NO_PROXY: 'localhost,127.0.0.1',
+        no_proxy: 'localhost,127.0.0.1',
+      },
+    };
+  }
+
+  stop(): void {
+    for (const server of this.servers) {
+      server.close();
+    }
+    this.servers = [];
+    rmSync(this.dir, { recursive: true, force: true });
+  }
+
+  /**
+   * HTTPS (CONNECT) and plain HTTP proxy limited to the allowlist
+   */
+  private createProxy(): HttpServer {
+    const server = createHttpServer((req, res) => {
+      let target: URL;
+      try {
+        target = new URL(req.url || '');
+      } catch {
+        res.writeHead(400).end('Proxy requests need an absolute URL');
+        return;
+      }
+
+      if (!this.allow(target.hostname, `http ${target.host}`)) {
+        res.writeHead(403).end(`Blocked by sandbox: ${target.hostname}`);
+        return;
+      }
+
+      const upstream = httpRequest({
+        host: target.hostname,
+        port: target.port || 80,
+        path: `${target.pathname}${target.search}`,
+        method: req.method,
+        headers: req.headers,
+      }, response => {
+        res.writeHead(response.statusCode || 502, response.headers);
+        response.pipe(res);
+      });
+      upstream.on('error', () => res.destroy());
+      req.pipe(upstream);
+    });
+
+    server.on('connect', (req, client, head) => {
+      const target = req.url || '';
+      const separator = target.lastIndexOf(':');
+      const host = (separator === -1 ? target : target.slice(0, separator)).replace(/^\[|\]$/g, '');
+      const port = Number(target.slice(separator + 1)) || 443;
+
+      if (!this.allow(host, `connect ${target}`)) {
+        client.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+        return;
+      }
+
+      const upstream = connect(port, host, () => {
+        client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        if (head.length > 0) upstream.write(head);
+        pipeTo(client, upstream);
+      });
+      upstream.on('error', () => client.destroy());
+      client.on('error', () => upstream.destroy());
+    });
+
+    return server;
+  }
+
+  private allow(host: string, description: string): boolean {
+    if (isHostAllowed(host, this.allowHosts)) return true;
+
+    this.violations.push(`network: ${description}`);
+    return false;
+  }
+
+  private listen(server: Server | HttpServer, socket: string): Promise<void> {
+    this.servers.push(server);
+    return new Promise((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(socket, () => resolve());
+    });
+  }
+}
+
+/**
+ * Pipe two sockets into each other, closing both when either fails
+ */
+function pipeTo(a: NodeJS.ReadWriteStream & { destroy(): void }, b: NodeJS.ReadWriteStream & { destroy(): void }): void {
+  a.pipe(b).pipe(a);
+  a.on('error', () => b.destroy());
+  b.on('error', () => a.destroy());
+}
+
+/**
+ * Sandbox side: `bridge --listen <port>=<socket> ... -- <command...>`
+ */
+async function runBridge(argv: string[]): Promise<void> {
+  const separator = argv.indexOf('--');
+  const command = argv.slice(separator + 1);
+  const options = argv.slice(0, separator);
+
+  for (let i = 0; i < options.length; i++) {
+    if (options[i] !== '--listen') continue;
+
+    const [port, socket] = options[++i].split('=');
+    const server = createServer(client => pipeTo(client, connect(socket)));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(Number(port), '127.0.0.1', () => resolve());
+    });
+  }
+
+  const child = spawn(command[0], command.slice(1), { stdio: 'inherit' });
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.on(signal, () => child.kill(signal));
+  }
+  child.on('error', err => {
+    console.error(`[sandbox] ${err.message}`);
+    process.exit(127);
+  });
+  child.on('exit', code => process.exit(code ?? 1));
+}
+
+// Run as the bridge when executed directly (works in both Node and Bun)
+const isMain = import.meta.url === `file://${process.argv[1]}` ||
+               (import.meta as any).main === true;
+
+if (isMain) {
+  runBridge(process.argv.slice(2)).catch(err => {
+    console.error(`[sandbox] Bridge failed: ${err.message}`);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * Scripted Executor
+ *
+ * Deterministic executor that replays recorded stream-json event streams
+ * instead of running an agent. Lets the whole loop run offline in tests.
+ *
+ * Each run consumes the next script in order. A script is either a fixed
+ * recording or a function of the request (e.g. to echo the task id back
+ * in a complete_task call). Record a real session with:
+ *
+ *   claude --print --verbose --output-format stream-json "..." > run.jsonl
+ */
+
+import { readFileSync } from 'fs';
+import { StreamJsonParser } from './stream-json.js';
+import type { Executor, ExecutorRequest, ExecutorResult } from '../core/cycle.js';
+
+/**
+ * One recorded session
+ */
+export interface ScriptedRun {
+  /** stream-json events, in order */
+  events: Record<string, unknown>[];
+  /** Process exit code (default 0) */
+  exitCode?: number;
+  stderr?: string;
+}
+
+export type Script = ScriptedRun | ((request: ExecutorRequest) => ScriptedRun);
+
+export class ScriptedExecutor implements Executor {
+  readonly name = 'scripted';
+
+  /** Every request received, for assertions */
+  readonly requests: ExecutorRequest[] = [];
+
+  private scripts: Script[];
+  private repeatLast: boolean;
+
+  /**
+   * @param repeatLast keep replaying the final script once the others are used up
+   */
+  constructor(scripts: Script[], options: { repeatLast?: boolean } = {}) {
+    this.scripts = [...scripts];
+    this.repeatLast = options.repeatLast ?? false;
+  }
+
+  /**
+   * Load a recording saved as newline-delimited stream-json
+   */
+  static fromFile(path: string, exitCode: number = 0): ScriptedRun {
+    const events = readFileSync(path, 'utf-8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line));
+
+    return { events, exitCode };
+  }
+
+  async run(request: ExecutorRequest): Promise<ExecutorResult> {
+    this.requests.push(request);
+
+    const script = this.scripts.length > 1 || !this.repeatLast
+      ? this.scripts.shift()
+      : this.scripts[0];
+
+    if (!script) {
+      return { success: false, output: '', error: 'Scripted executor has no runs left', usage: emptyUsage() };
+    }
+
+    const run = typeof script === 'function' ? script(request) : script;
+    const parser = new StreamJsonParser(request.taskId);
+    for (const event of run.events) {
+      parser.handleEvent(event);
+    }
+
+    const exitCode = run.exitCode ?? 0;
+    return parser.finish({
+      success: exitCode === 0,
+      output: parser.getOutput(run.events.map(e => JSON.stringify(e)).join('\n')),
+      error: exitCode !== 0 ? run.stderr || `Exit code: ${exitCode}` : undefined,
+    });
+  }
+}
+
+function emptyUsage() {
+  return { tokensInput: 0, tokensOutput: 0, tokensCacheRead: 0, toolsUsed: [] };
+}
@@ -0,0 +1,233 @@
+/**
+ * Claude stream-json Parser
+ *
+ * Turns the newline-delimited events of `--output-format stream-json`
+ * into an ExecutorResult: final text, token usage and cost, tools used,
+ * session id, any termination tool call and update_plan calls. Shared by the live Claude
+ * Code executor and the scripted replay executor. Tool calls and results
+ * also go to the event bus.
+ */
+
+import { TerminationHandler } from '../tools/termination.js';
+import { isPlanTool, parsePlanChange } from '../tools/plan.js';
+import type { PlanChange } from '../scheduler/goal-editor.js';
+import { stripMcpPrefix } from '../tools/mcp-server.js';
+import type { CycleUsage, ExecutorResult } from '../core/cycle.js';
+import { getEventBus } from '../core/events.js';
+
+export class StreamJsonParser {
+  private startTime = Date.now();
+  private lineBuffer = '';
+  private resultText = '';  // Accumulate result text
+  private termination = new TerminationHandler();
+  private toolsUsed: string[] = [];
+  private planChanges: PlanChange[] = [];
+  // Usage per assistant message id - the fallback when no result event arrives
+  private messageUsage = new Map<string, Record<string, number>>();
+  private finalUsage: CycleUsage | null = null;
+  private sessionId: string | undefined;
+
+  /** Streamed tool starts (for progress logs) */
+  toolCount = 0;
+  lastTool = '';
+
+  /**
+   * `taskId` labels the session's tool events
+   */
+  constructor(private taskId?: string) {}
+
+  /**
+   * Feed a chunk of raw stdout; complete lines are parsed
+   */
+  feed(chunk: string): void {
+    this.lineBuffer += chunk;
+
+    // Process complete JSON lines (newline-delimited JSON)
+    const lines = this.lineBuffer.split('\n');
+    this.lineBuffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      try {
+        this.handleEvent(JSON.parse(line));
+      } catch (e) {
+        // Not valid JSON - might be raw output
+        if (line.trim().length > 20) {
+          console.log(`[Claude] Raw: ${line.slice(0, 100)}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Handle one parsed event
+   */
+  handleEvent(event: any): void {
+    const elapsed = Math.floor((Date.now() - this.startTime) / 1000);
+
+    // Handle different event types based on Claude CLI stream-json format
+    switch (event.type) {
+      case 'system':
+        // System events: init, hook_response
+        if (event.subtype === 'init') {
+          this.sessionId = event.session_id || this.sessionId;
+          console.log(`[Claude ${elapsed}s] 📋 Session started: ${event.session_id?.slice(0, 8)} | Model: ${event.model}`);
+        } else if (event.subtype === 'hook_response') {
+          // Hook fired - check for errors
+          if (event.stderr && event.exit_code !== 0) {
+            console.log(`[Claude ${elapsed}s] ⚠️ Hook error: ${event.hook_name}`);
+          }
+        }
+        break;
+
+      case 'stream_event': {
+        // Real-time streaming events
+        const streamType = event.event?.type;
+        if (streamType === 'content_block_start') {
+          const block = event.event.content_block;
+          if (block?.type === 'tool_use') {
+            this.toolCount++;
+            this.lastTool = block.name;
+            console.log(`[Claude ${elapsed}s] 🔧 Tool #${this.toolCount}: ${this.lastTool}`);
+          }
+        } else if (streamType === 'content_block_delta') {
+          const delta = event.event.delta;
+          if (delta?.type === 'text_delta' && delta.text) {
+            this.resultText += delta.text;
+            // Log significant text chunks
+            const text = delta.text.trim();
+            if (text.includes('TASK_COMPLETE')) {
+              console.log(`[Claude ${elapsed}s] ✅ TASK_COMPLETE detected`);
+            } else if (text.includes('TASK_BLOCKED')) {
+              console.log(`[Claude ${elapsed}s] 🚫 TASK_BLOCKED detected`);
+            }
+          }
+        }
+        break;
+      }
+
+      case 'assistant':
+        // Complete assistant message with tool uses
+        if (event.message?.id && event.message.usage) {
+          this.messageUsage.set(event.message.id, event.message.usage);
+        }
+        if (event.message?.content) {
+          for (const block of event.message.content) {
+            if (block.type === 'text' && block.text) {
+              // Don't double-add - this is the complete message
+              const text = block.text.trim();
+              if (text.length > 50) {
+                console.log(`[Claude ${elapsed}s] 💬 ${text.slice(0, 150)}...`);
+              }
+            } else if (block.type === 'tool_use') {
+              // Tool was used
+              const inputStr = JSON.stringify(block.input || {}).slice(0, 80);
+              console.log(`[Claude ${elapsed}s] 🔧 ${block.name}: ${inputStr}`);
+              getEventBus().emit('tool_use', { taskId: this.taskId, tool: block.name, input: block.input || {} });
+
+              // Termination tools end the task with a structured result
+              const toolName = stripMcpPrefix(block.name);
+              this.toolsUsed.push(toolName);
+              if (this.termination.isTerminationTool(toolName)) {
+                const ended = this.termination.handleToolCall(toolName, block.input || {});
+                console.log(`[Claude ${elapsed}s] 🏁 ${toolName}: ${ended?.type}`);
+              } else if (isPlanTool(toolName)) {
+                // Applied by the orchestrator once the session ends
+                const change = parsePlanChange(block.input || {});
+                if (typeof change === 'string') {
+                  console.log(`[Claude ${elapsed}s] ⚠️ Ignoring ${toolName}: ${change}`);
+                } else {
+                  this.planChanges.push(change);
+                }
+              }
+            }
+          }
+        }
+        break;
+
+      case 'user':
+        // Tool results coming back
+        if (event.message?.content) {
+          for (const block of event.message.content) {
+            if (block.type === 'tool_result') {
+              const success = !block.is_error;
+              const preview = (block.content || '').toString().slice(0, 60);
+              console.log(`[Claude ${elapsed}s] ${success ? '✓' : '✗'} Result: ${preview}...`);
+              getEventBus().emit('tool_result', { taskId: this.taskId, success, preview: toolResultText(block.content).slice(0, 200) });
+            }
+          }
+        }
+        break;
+
+      case 'result': {
+        // Final result
+        const status = event.subtype === 'success' ? '✅' : '❌';
+        console.log(`[Claude ${elapsed}s] ${status} Done: ${event.subtype} (${event.num_turns} turns, ${event.duration_ms}ms)`);
+        if (event.result) {
+          this.resultText = event.result;
+        }
+        this.sessionId = event.session_id || this.sessionId;
+        this.finalUsage = {
+          ...parseUsage(event.usage ? [event.usage] : [...this.messageUsage.values()]),
+          costUsd: typeof event.total_cost_usd === 'number' ? event.total_cost_usd : undefined,
+          numTurns: event.num_turns,
+          toolsUsed: this.toolsUsed,
+        };
+        break;
+      }
+
+      case 'error':
+        console.log(`[Claude ${elapsed}s] ❌ Error: ${event.error?.message || JSON.stringify(event).slice(0, 100)}`);
+        break;
+    }
+  }
+
+  /**
+   * Text the session produced so far (falls back to raw stdout)
+   */
+  getOutput(fallback: string): string {
+    return this.resultText || fallback;
+  }
+
+  /**
+   * Build the executor result once the session has ended
+   */
+  finish(outcome: { success: boolean; output: string; error?: string }): ExecutorResult {
+    return {
+      ...outcome,
+      termination: this.termination.getPendingResult() || undefined,
+      planChanges: this.planChanges.length > 0 ? this.planChanges : undefined,
+      usage: this.finalUsage || { ...parseUsage([...this.messageUsage.values()]), toolsUsed: this.toolsUsed },
+      sessionId: this.sessionId,
+    };
+  }
+}
+
+/**
+ * Text of a tool_result block (a string or a list of content blocks)
+ */
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map(part => (typeof part?.text === 'string' ? part.text : '')).join('');
+  }
+  return '';
+}
+
+/**
+ * Sum Anthropic API usage objects into cycle token counts
+ */
+function parseUsage(usages: Array<Record<string, number>>): Omit<CycleUsage, 'toolsUsed'> {
+  let tokensInput = 0;
+  let tokensOutput = 0;
+  let tokensCacheRead = 0;
+
+  for (const usage of usages) {
+    tokensInput += (usage.input_tokens || 0) + (usage.cache_creation_input_tokens || 0);
+    tokensOutput += usage.output_tokens || 0;
+    tokensCacheRead += usage.cache_read_input_tokens || 0;
+  }
+
+  return { tokensInput, tokensOutput, tokensCacheRead };
+}
@@ -21,10 +21,15 @@ export { Reflector, Reflection } from './core/reflector.js';
 // Loop Prevention & Reliability
 export { CircuitBreaker, createCircuitBreaker } from './core/circuit-breaker.js';
 export { StateMachine, createStateMachine } from './core/state-machine.js';
+export { EventBus, getEventBus, AgentEvent, AgentEventType } from './core/events.js';
 
 // Task Management
 export { Scheduler, Goal, Task } from './scheduler/scheduler.js';
-export { DAGScheduler, createDAGScheduler } from './scheduler/dag-scheduler.js';
+export { DAGScheduler, createDAGScheduler, GoalReconciliation } from './scheduler/dag-scheduler.js';
+export { GoalEditor, PlanChange, PlanChangeRecord } from './scheduler/goal-editor.js';
+export { GoalWatcher } from './scheduler/goal-watcher.js';
+export { SchedulingPolicy, GoalTimeShare } from './scheduler/scheduling-policy.js';
+export { ControlQueue, ControlCommand, InjectedTask } from './core/control.js';
 
 // Prompts & Persona
 export { getSystemPrompt, getReasoningPrompt, getTaskPrompt } from './prompts/system.js';
@@ -58,6 +63,7 @@ export { HutchMemBridge, getHutchMem } from './memory/bridge.js';
 
 // Tools
 export { TERMINATION_TOOL_DEFINITIONS, TerminationHandler } from './tools/termination.js';
+export { PLAN_TOOL_DEFINITIONS } from './tools/plan.js';
 
 // Workers
 export { ResearchWorker } from './workers/research.js';
@@ -13,8 +13,8 @@
  */
 
 import { existsSync, readFileSync } from 'fs';
+import { HUTCHMEM_API_URL as HUTCHMEM_API } from '../core/config.js';
 
-const HUTCHMEM_API = process.env.HUTCHMEM_API_URL || 'http://localhost:37777';
 const DEFAULT_PROJECT = process.env.HUTCHMEM_PROJECT || 'nexus';
 
 export interface Observation {
@@ -11,12 +11,14 @@
  * Extends the basic Scheduler with DAG capabilities.
  */
 
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
-
-const AGENT_DIR = join(homedir(), '.hutch-agent');
-const DAG_STATE_FILE = join(AGENT_DIR, 'dag-state.json');
+import { existsSync, readFileSync, writeFileSync, mkdirSync, readdirSync } from 'fs';
+import { join, basename } from 'path';
+import { AGENT_DIR, DAG_STATE_FILE, GOALS_DIR, getConfig } from '../core/config.js';
+import type { TaskArtifact, TaskBlocker } from '../tools/termination.js';
+import type { GoalSandbox } from '../core/sandbox.js';
+import type { InjectedTask } from '../core/control.js';
+import { contentTaskId, objectiveTaskIds, uniqueId, validateGoal } from './goal-schema.js';
+import { pickGoal, timeShares, GoalTimeShare, Rotation } from './scheduling-policy.js';
 
 /**
  * Task status with additional DAG-specific states
@@ -54,9 +56,21 @@ export interface DAGTask {
   result?: string;
   /** Error message if failed */
   error?: string;
+  /** Why the task was explicitly blocked (held until unblockTask) */
+  blockReason?: string;
+  /** Blockers reported by the agent via block_task */
+  blockers?: TaskBlocker[];
+  /** Artifacts reported by the agent via complete_task */
+  artifacts?: TaskArtifact[];
   /** Timestamp of status changes */
   startedAt?: string;
   completedAt?: string;
+  /** Human approval before each attempt (overrides the goal policy) */
+  requiresApproval?: ApprovalPolicy;
+  /** Checks that must pass before a reported completion counts */
+  acceptance?: AcceptanceCheck[];
+  /** Added at runtime rather than from the goal file (kept across reloads) */
+  injectedBy?: string;
   /** Custom metadata */
   metadata?: Record<string, unknown>;
 }
@@ -69,16 +83,74 @@ export interface DAGGoal {
   name: string;
   description?: string;
   tasks: DAGTask[];
+  /** Priority among goals (lower = higher priority) */
+  priority: number;
+  /** Cycles in a row under round-robin scheduling */
+  weight?: number;
   /** Goal-level deadline */
   deadline?: string;
   /** Working directory for execution */
   workingDirectory?: string;
+  /** Lifetime spending cap for this goal */
+  budget?: GoalBudget;
+  /** Session settings that override the global config */
+  execution?: GoalExecution;
+  /** Human approval policy for the goal's tasks */
+  requiresApproval?: ApprovalPolicy;
+  /** Restrict the filesystem, environment and network of its sessions */
+  sandbox?: GoalSandbox;
+  /** Rules the agent is told to follow (shown in every prompt) */
+  constraints?: Record<string, unknown>;
+  /** Goal file it was loaded from (reloaded after plan changes) */
+  sourceFile?: string;
   status: 'active' | 'completed' | 'paused' | 'failed';
   progress: number;
+  /** Cycle time spent on the goal so far */
+  timeSpentMs?: number;
   createdAt: string;
   completedAt?: string;
 }
 
+/**
+ * Per-goal spending cap (either limit may be omitted)
+ */
+export interface GoalBudget {
+  usd?: number;
+  tokens?: number;
+}
+
+/**
+ * When a task must wait for a human: always, never, or only for plans
+ * the planner rates high risk
+ */
+export type ApprovalPolicy = boolean | 'high-risk';
+
+/**
+ * One acceptance check from the goal file
+ *
+ * - command: shell command must exit 0
+ * - test: test command must exit 0 (reported with its output tail)
+ * - file: path must exist, optionally matching `contains` (a regex)
+ * - output: the session's final output must match `pattern`
+ *
+ * Paths and commands are relative to the task's working directory.
+ */
+export type AcceptanceCheck =
+  | { type: 'command'; command: string; name?: string; timeoutMs?: number }
+  | { type: 'test'; command: string; name?: string; timeoutMs?: number }
+  | { type: 'file'; path: string; contains?: string; name?: string }
+  | { type: 'output'; pattern: string; flags?: string; name?: string };
+
+/**
+ * Per-goal session overrides (unset fields use the global config)
+ */
+export interface GoalExecution {
+  model?: string;
+  maxTurns?: number;
+  maxCycleTimeMs?: number;
+  stuckTimeoutMs?: number;
+}
+
 /**
  * Task execution result
  */
@@ -88,6 +160,23 @@ export interface TaskExecutionResult {
   output?: string;
   error?: string;
   durationMs: number;
+  artifacts?: TaskArtifact[];
+}
+
+/**
+ * What changed when a goal file was (re)loaded
+ */
+export interface GoalReconciliation {
+  goalId: string;
+  goalName: string;
+  /** The goal wasn't loaded before */
+  created: boolean;
+  added: string[];
+  removed: string[];
+  /** Tasks matched by objective and text after their id changed */
+  renamed: Array<{ from: string; to: string }>;
+  /** Tasks carried over under the same id */
+  kept: number;
 }
 
 /**
@@ -138,6 +227,7 @@ export interface DAGAnalysis {
 export class DAGScheduler {
   private goals: Map<string, DAGGoal> = new Map();
   private currentGoalId: string | null = null;
+  private rotation: Rotation = { goalId: null, turns: 0 };
 
   constructor() {
     // Ensure directory exists
@@ -148,6 +238,93 @@ export class DAGScheduler {
    * Load a goal with DAG tasks from a JSON file
    */
   async loadGoal(filepath: string): Promise<DAGGoal | null> {
+    const imported = this.importGoal(filepath);
+    if (!imported) return null;
+
+    const { goal, reconciliation } = imported;
+    if (reconciliation.created) {
+      console.log(`[DAGScheduler] Loaded goal: ${goal.name} (${goal.tasks.length} tasks)`);
+    } else {
+      console.log(`[DAGScheduler] Resuming goal from saved state: ${goal.name} (${goal.progress}%)`);
+      if (hasTaskChanges(reconciliation)) {
+        console.log(`[DAGScheduler] Goal file changed: ${describeReconciliation(reconciliation)}`);
+      }
+    }
+    return goal;
+  }
+
+  /**
+   * Re-read a goal file and reconcile it with the goal in progress
+   *
+   * Tasks still in the file keep their status, retries and results. Null
+   * if the file can't be loaded - the previous version stays in place.
+   */
+  async reloadGoalFile(filepath: string): Promise<GoalReconciliation | null> {
+    const imported = this.importGoal(filepath);
+    if (!imported) return null;
+
+    this.saveState();
+    return imported.reconciliation;
+  }
+
+  /**
+   * Re-read a loaded goal's file, e.g. after a plan change
+   */
+  async reloadGoal(goalId: string): Promise<GoalReconciliation | null> {
+    const goal = this.goals.get(goalId);
+    if (!goal?.sourceFile) return null;
+    return this.reloadGoalFile(goal.sourceFile);
+  }
+
+  /**
+   * Drop the goal whose file was deleted
+   *
+   * Call between cycles - the goal's progress is forgotten.
+   */
+  removeGoalFile(filepath: string): DAGGoal | null {
+    const goal = [...this.goals.values()].find(g => g.sourceFile === filepath);
+    if (!goal) return null;
+
+    this.goals.delete(goal.id);
+    if (this.currentGoalId === goal.id) {
+      this.currentGoalId = null;
+    }
+    this.saveState();
+    return goal;
+  }
+
+  /**
+   * Load all goal files from a directory
+   *
+   * Defaults to ./goals when present, otherwise GOALS_DIR.
+   */
+  async loadGoals(dir?: string): Promise<DAGGoal[]> {
+    const goalsPath = resolveGoalsDir(dir);
+
+    if (!existsSync(goalsPath)) {
+      console.log(`[DAGScheduler] Goals directory not found: ${goalsPath}`);
+      return [];
+    }
+
+    const loaded: DAGGoal[] = [];
+    const files = readdirSync(goalsPath).filter(f => f.endsWith('.json'));
+
+    for (const file of files) {
+      const goal = await this.loadGoal(join(goalsPath, file));
+      if (goal) {
+        loaded.push(goal);
+      }
+    }
+
+    this.saveState();
+    return loaded;
+  }
+
+  /**
+   * Read, validate and parse a goal file, then add it or reconcile it
+   * with the goal already loaded under the same id
+   */
+  private importGoal(filepath: string): { goal: DAGGoal; reconciliation: GoalReconciliation } | null {
     if (!existsSync(filepath)) {
       console.log(`[DAGScheduler] Goal file not found: ${filepath}`);
       return null;
@@ -156,7 +333,36 @@ export class DAGScheduler {
     try {
       const content = readFileSync(filepath, 'utf-8');
       const config = JSON.parse(content);
-      const goal = this.parseGoalConfig(config);
+
+      const validation = validateGoal(config, filepath);
+      if (!validation.valid) {
+        for (const issue of validation.errors) {
+          console.error(`[DAGScheduler] ${filepath}: ${issue.path || '(goal)'}: ${issue.message}`);
+        }
+        return null;
+      }
+
+      const goal = this.parseGoalConfig(config, basename(filepath, '.json'), filepath);
+
+      // Resume from persisted state if this goal was already in progress
+      const existing = this.goals.get(goal.id);
+      if (existing) {
+        // Everything but progress comes from the file
+        existing.name = goal.name;
+        existing.description = goal.description;
+        existing.priority = goal.priority;
+        existing.weight = goal.weight;
+        existing.deadline = goal.deadline;
+        existing.workingDirectory = goal.workingDirectory;
+        existing.budget = goal.budget;
+        existing.execution = goal.execution;
+        existing.requiresApproval = goal.requiresApproval;
+        existing.sandbox = goal.sandbox;
+        existing.constraints = goal.constraints;
+        existing.sourceFile = filepath;
+
+        return { goal: existing, reconciliation: this.mergeTasks(existing, goal.tasks) };
+      }
 
       // Validate DAG (check for cycles)
       const analysis = this.analyzeDAG(goal);
@@ -168,8 +374,18 @@ export class DAGScheduler {
       this.goals.set(goal.id, goal);
       this.currentGoalId = goal.id;
 
-      console.log(`[DAGScheduler] Loaded goal: ${goal.name} (${goal.tasks.length} tasks)`);
-      return goal;
+      return {
+        goal,
+        reconciliation: {
+          goalId: goal.id,
+          goalName: goal.name,
+          created: true,
+          added: goal.tasks.map(t => t.id),
+          removed: [],
+          renamed: [],
+          kept: 0,
+        },
+      };
     } catch (err) {
       console.error(`[DAGScheduler] Failed to load goal: ${err}`);
       return null;
@@ -179,7 +395,7 @@ export class DAGScheduler {
   /**
    * Parse goal configuration
    */
-  private parseGoalConfig(config: any): DAGGoal {
+  private parseGoalConfig(config: any, fallbackId?: string, sourceFile?: string): DAGGoal {
     const tasks: DAGTask[] = [];
 
     // Parse tasks with dependencies
@@ -195,6 +411,8 @@ export class DAGScheduler {
           currentRetries: 0,
           priority: taskConfig.priority ?? 5,
           estimatedDurationMs: taskConfig.estimatedDurationMs,
+          requiresApproval: taskConfig.requiresApproval,
+          acceptance: taskConfig.acceptance,
           metadata: taskConfig.metadata,
         });
       }
@@ -205,9 +423,11 @@ export class DAGScheduler {
       let taskIndex = 0;
       let previousTaskId: string | null = null;
 
-      for (const obj of config.objectives) {
-        for (const taskName of obj.tasks || []) {
-          const taskId = `${obj.id}-${taskIndex}`;
+      const ids = objectiveTaskIds(config.objectives);
+
+      config.objectives.forEach((obj: any, objIndex: number) => {
+        (obj.tasks || []).forEach((taskName: any, i: number) => {
+          const taskId = ids[objIndex][i];
           tasks.push({
             id: taskId,
             name: typeof taskName === 'string' ? taskName : taskName.name,
@@ -218,25 +438,39 @@ export class DAGScheduler {
             maxRetries: 3,
             currentRetries: 0,
             priority: taskIndex,
+            metadata: {
+              objective: obj.id,
+              ...(obj.description && { objectiveDescription: obj.description }),
+              ...(obj.adaptive && { adaptive: true }),
+              ...(obj.recurring && { recurring: true }),
+            },
           });
           previousTaskId = taskId;
           taskIndex++;
-        }
+        });
         // Reset for next objective (objectives are independent)
         previousTaskId = null;
-      }
+      });
     }
 
     // Update initial status based on dependencies
     this.updateTaskStatuses(tasks);
 
     const goal: DAGGoal = {
-      id: config.id || `goal-${Date.now()}`,
+      id: config.id || fallbackId || `goal-${Date.now()}`,
       name: config.name,
       description: config.description,
       tasks,
+      priority: config.priority ?? 1,
+      weight: config.weight,
       deadline: config.deadline,
       workingDirectory: config.workingDirectory,
+      budget: config.budget,
+      execution: config.execution,
+      requiresApproval: config.requiresApproval,
+      sandbox: config.sandbox,
+      constraints: config.constraints,
+      sourceFile,
       status: 'active',
       progress: 0,
       createdAt: new Date().toISOString(),
@@ -245,6 +479,63 @@ export class DAGScheduler {
     return goal;
   }
 
+  /**
+   * Take a goal's task list from its file, carrying over the status,
+   * retries and results of tasks that are still in it
+   *
+   * A task whose id changed (e.g. a positional id from an older version)
+   * is matched by objective and text. A running task missing from the
+   * file is kept until it finishes.
+   */
+  private mergeTasks(goal: DAGGoal, fromFile: DAGTask[]): GoalReconciliation {
+    const previous = new Map(goal.tasks.map(t => [t.id, t]));
+    const fileIds = new Set(fromFile.map(t => t.id));
+    const unmatched = goal.tasks.filter(t => !fileIds.has(t.id) && t.status !== 'running' && !t.injectedBy);
+
+    const added: string[] = [];
+    const renamed: Array<{ from: string; to: string }> = [];
+    let kept = 0;
+
+    const tasks = fromFile.map(task => {
+      let current = previous.get(task.id);
+      if (current) {
+        kept++;
+      } else {
+        const index = unmatched.findIndex(t => t.name === task.name && sameObjective(t, task));
+        if (index === -1) {
+          added.push(task.id);
+          return task;
+        }
+        current = unmatched.splice(index, 1)[0];
+        renamed.push({ from: current.id, to: task.id });
+      }
+
+      // Updated in place - callers may hold on to the task object
+      return Object.assign(current, {
+        id: task.id,
+        name: task.name,
+        description: task.description,
+        dependencies: task.dependencies,
+        maxRetries: task.maxRetries,
+        priority: task.priority,
+        estimatedDurationMs: task.estimatedDurationMs,
+        requiresApproval: task.requiresApproval,
+        acceptance: task.acceptance,
+        metadata: task.metadata,
+      });
+    });
+
+    goal.tasks = [...tasks, ...goal.tasks.filter(t => !fileIds.has(t.id) && (t.status === 'running' || t.injectedBy))];
+    const removed = unmatched.map(t => t.id);
+
+    const reconciliation = { goalId: goal.id, goalName: goal.name, created: false, added, removed, renamed, kept };
+    if (hasTaskChanges(reconciliation)) {
+      this.reopenGoal(goal);
+    }
+
+    return reconciliation;
+  }
+
   /**
    * Update task statuses based on dependencies
    */
@@ -252,7 +543,14 @@ export class DAGScheduler {
     const taskMap = new Map(tasks.map(t => [t.id, t]));
 
     for (const task of tasks) {
-      if (task.status === 'completed' || task.status === 'running') {
+      // Terminal, in-flight and explicitly held tasks keep their status
+      if (
+        task.status === 'completed' ||
+        task.status === 'running' ||
+        task.status === 'failed' ||
+        task.status === 'skipped' ||
+        (task.status === 'blocked' && task.blockReason)
+      ) {
         continue;
       }
 
@@ -264,7 +562,7 @@ export class DAGScheduler {
         const dep = taskMap.get(depId);
         if (!dep) continue;
 
-        if (dep.status !== 'completed') {
+        if (dep.status !== 'completed' && dep.status !== 'skipped') {
           allDepsComplete = false;
         }
         if (dep.status === 'blocked' || dep.status === 'failed') {
@@ -290,6 +588,102 @@ export class DAGScheduler {
     return this.goals.get(this.currentGoalId) || null;
   }
 
+  /**
+   * Get all loaded goals, ordered by priority
+   */
+  getGoals(): DAGGoal[] {
+    return Array.from(this.goals.values()).sort((a, b) => a.priority - b.priority);
+  }
+
+  /**
+   * Get names of all loaded goals
+   */
+  getGoalNames(): string[] {
+    return this.getGoals().map(g => g.name);
+  }
+
+  /**
+   * Select the active goal the scheduling policy runs next and make it current
+   *
+   * Goals with no ready task are passed over while another goal has one.
+   * `canRun` lets the caller pass over goals it can't work on right now
+   * (e.g. over budget).
+   */
+  selectNextGoal(canRun: (goal: DAGGoal) => boolean = () => true): DAGGoal | null {
+    const policy = getConfig().scheduling.policy;
+    const candidates = this.getGoals().filter(g => g.status === 'active' && canRun(g));
+    const { goal, passedOver, rotation } = pickGoal(policy, candidates, this.rotation, hasRunnableTask);
+
+    if (goal && passedOver.length > 0) {
+      console.log(`[DAGScheduler] Nothing runnable in ${passedOver.map(g => g.name).join(', ')} - switching to ${goal.name}`);
+    }
+
+    this.rotation = rotation;
+    this.currentGoalId = goal ? goal.id : null;
+    return goal;
+  }
+
+  /**
+   * Add a cycle's duration to the goal's time spent
+   */
+  recordGoalTime(goalId: string, durationMs: number): void {
+    const goal = this.goals.get(goalId);
+    if (!goal) return;
+
+    goal.timeSpentMs = (goal.timeSpentMs || 0) + durationMs;
+    this.saveState();
+  }
+
+  /**
+   * Time spent per goal, as shares of the total
+   */
+  getTimeShares(): GoalTimeShare[] {
+    return timeShares(this.getGoals());
+  }
+
+  /**
+   * Return tasks left 'running' by a previous process to 'ready'
+   *
+   * Call after loadState() - nothing can still be executing them.
+   * Tasks listed in `retryTaskIds` have the interruption counted as a
+   * failed attempt, so a task that keeps killing the agent runs out of
+   * retries instead of being resumed forever.
+   */
+  recoverInterruptedTasks(retryTaskIds: string[] = []): DAGTask[] {
+    const recovered: DAGTask[] = [];
+
+    for (const goal of this.goals.values()) {
+      for (const task of goal.tasks) {
+        if (task.status !== 'running') continue;
+
+        task.status = 'ready';
+        task.startedAt = undefined;
+
+        if (retryTaskIds.includes(task.id)) {
+          task.currentRetries++;
+          task.error = 'Interrupted mid-execution';
+
+          if (task.currentRetries >= task.maxRetries) {
+            task.status = 'failed';
+            console.log(`[DAGScheduler] Task failed (interrupted, max retries): ${task.name}`);
+            this.updateTaskStatuses(goal.tasks);
+            this.updateGoalStatus(goal);
+            continue;
+          }
+        }
+
+        recovered.push(task);
+      }
+    }
+
+    if (recovered.length > 0) {
+      console.log(`[DAGScheduler] Recovered ${recovered.length} interrupted task(s): ${recovered.map(t => t.id).join(', ')}`);
+    }
+    this.saveState();
+
+    return recovered;
+  }
+
   /**
    * Get all ready tasks (can be executed in parallel)
    */
@@ -343,6 +737,7 @@ export class DAGScheduler {
     if (result.success) {
       task.status = 'completed';
       task.result = result.output;
+      task.artifacts = result.artifacts;
       console.log(`[DAGScheduler] Task completed: ${task.name}`);
     } else {
       task.currentRetries++;
@@ -359,76 +754,228 @@ export class DAGScheduler {
 
     // Update dependent tasks
     this.updateTaskStatuses(goal.tasks);
+    this.updateGoalStatus(goal);
+    this.saveState();
+  }
 
-    // Update goal progress
-    const completed = goal.tasks.filter(t => t.status === 'completed').length;
-    goal.progress = Math.round((completed / goal.tasks.length) * 100);
+  /**
+   * Update goal progress and completion/failure status
+   */
+  private updateGoalStatus(goal: DAGGoal): void {
+    const done = goal.tasks.filter(t => t.status === 'completed' || t.status === 'skipped').length;
+    goal.progress = goal.tasks.length > 0 ? Math.round((done / goal.tasks.length) * 100) : 0;
 
     // Check if goal is complete
-    if (completed === goal.tasks.length) {
-      goal.status = 'completed';
-      goal.completedAt = new Date().toISOString();
-      console.log(`[DAGScheduler] Goal completed: ${goal.name}`);
+    if (goal.tasks.length > 0 && done === goal.tasks.length) {
+      if (goal.status !== 'completed') {
+        goal.status = 'completed';
+        goal.completedAt = new Date().toISOString();
+        console.log(`[DAGScheduler] Goal completed: ${goal.name}`);
+      }
+      return;
     }
 
-    // Check if goal has failed (all paths blocked)
-    const readyOrPending = goal.tasks.filter(t =>
-      t.status === 'ready' || t.status === 'pending' || t.status === 'running'
+    // Check if goal has failed (all paths blocked). Tasks held for a human
+    // can still be unblocked, so they keep the goal alive.
+    const runnable = goal.tasks.filter(t =>
+      t.status === 'ready' || t.status === 'pending' || t.status === 'running' ||
+      (t.status === 'blocked' && t.blockReason)
     ).length;
-    if (readyOrPending === 0 && goal.status !== 'completed') {
+    if (runnable === 0 && goal.status === 'active') {
       goal.status = 'failed';
       console.log(`[DAGScheduler] Goal failed (all paths blocked): ${goal.name}`);
     }
-
-    this.saveState();
   }
 
   /**
    * Skip a task and propagate to dependents
    */
   skipTask(taskId: string, reason?: string): boolean {
-    const goal = this.getCurrentGoal();
-    if (!goal) return false;
-
-    const task = goal.tasks.find(t => t.id === taskId);
-    if (!task) return false;
+    const found = this.findTask(taskId);
+    if (!found) return false;
+    const { goal, task } = found;
 
     task.status = 'skipped';
     task.result = reason || 'Skipped by user';
+    task.blockReason = undefined;
     task.completedAt = new Date().toISOString();
 
     // Update dependent tasks
     this.updateTaskStatuses(goal.tasks);
+    this.updateGoalStatus(goal);
     this.saveState();
 
     console.log(`[DAGScheduler] Task skipped: ${task.name}`);
     return true;
   }
 
+  /**
+   * Hold a task as blocked until unblockTask is called
+   *
+   * Dependents become blocked too; other branches keep running.
+   */
+  blockTask(taskId: string, reason: string, blockers?: TaskBlocker[]): boolean {
+    const found = this.findTask(taskId);
+    if (!found) return false;
+
+    const { goal, task } = found;
+    if (task.status === 'completed' || task.status === 'skipped') return false;
+
+    task.status = 'blocked';
+    task.blockReason = reason;
+    task.blockers = blockers;
+    task.startedAt = undefined;
+
+    // Update dependent tasks
+    this.updateTaskStatuses(goal.tasks);
+    this.updateGoalStatus(goal);
+    this.saveState();
+
+    console.log(`[DAGScheduler] Task blocked: ${task.name} (${reason})`);
+    return true;
+  }
+
   /**
    * Unblock a task (retry after fixing blocker)
+   *
+   * `resetRetries` false keeps the attempt count, for holds that were not
+   * caused by failures (e.g. an approval gate).
    */
-  unblockTask(taskId: string): boolean {
-    const goal = this.getCurrentGoal();
-    if (!goal) return false;
+  unblockTask(taskId: string, resetRetries: boolean = true): boolean {
+    const found = this.findTask(taskId);
+    if (!found) return false;
 
-    const task = goal.tasks.find(t => t.id === taskId);
-    if (!task || (task.status !== 'blocked' && task.status !== 'failed')) {
+    const { goal, task } = found;
+    if (task.status !== 'blocked' && task.status !== 'failed') {
       return false;
     }
 
     task.status = 'pending';
-    task.currentRetries = 0;
+    if (resetRetries) {
+      task.currentRetries = 0;
+    }
     task.error = undefined;
+    task.blockReason = undefined;
+    task.blockers = undefined;
+
+    // Dependents blocked only because of this task can run again
+    for (const t of goal.tasks) {
+      if (t.status === 'blocked' && !t.blockReason) {
+        t.status = 'pending';
+      }
+    }
 
     // Re-evaluate statuses
     this.updateTaskStatuses(goal.tasks);
+    if (goal.status === 'failed') {
+      goal.status = 'active';
+    }
+    this.updateGoalStatus(goal);
     this.saveState();
 
     console.log(`[DAGScheduler] Task unblocked: ${task.name}`);
     return true;
   }
 
+  /**
+   * Run a finished, skipped, failed or blocked task again from scratch
+   */
+  retryTask(taskId: string): boolean {
+    const found = this.findTask(taskId);
+    if (!found) return false;
+
+    const { goal, task } = found;
+    if (!['completed', 'skipped', 'failed', 'blocked'].includes(task.status)) {
+      return false;
+    }
+
+    task.status = 'pending';
+    task.currentRetries = 0;
+    task.result = undefined;
+    task.error = undefined;
+    task.blockReason = undefined;
+    task.blockers = undefined;
+    task.startedAt = undefined;
+    task.completedAt = undefined;
+
+    for (const t of goal.tasks) {
+      if (t.status === 'blocked' && !t.blockReason) {
+        t.status = 'pending';
+      }
+    }
+
+    this.reopenGoal(goal);
+    this.saveState();
+
+    console.log(`[DAGScheduler] Task queued for retry: ${task.name}`);
+    return true;
+  }
+
+  /**
+   * Add an ad-hoc task to a goal
+   *
+   * The task is kept when the goal file is reloaded. Throws if the goal
+   * doesn't exist, the id is taken or a dependency is unknown.
+   */
+  injectTask(goalId: string, input: InjectedTask, by: string): DAGTask {
+    const goal = this.goals.get(goalId);
+    if (!goal) {
+      throw new Error(`No goal ${goalId}`);
+    }
+
+    const taken = new Set(goal.tasks.map(t => t.id));
+    if (input.id && taken.has(input.id)) {
+      throw new Error(`Goal ${goalId} already has a task ${input.id}`);
+    }
+    const unknown = (input.dependencies || []).filter(id => !taken.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown dependencies: ${unknown.join(', ')}`);
+    }
+
+    const task: DAGTask = {
+      id: input.id || uniqueId(contentTaskId('task', input.name), taken),
+      name: input.name,
+      description: input.description,
+      dependencies: input.dependencies || [],
+      status: 'pending',
+      maxRetries: 3,
+      currentRetries: 0,
+      priority: input.priority ?? 5,
+      injectedBy: by,
+    };
+
+    goal.tasks.push(task);
+    this.reopenGoal(goal);
+    this.saveState();
+
+    console.log(`[DAGScheduler] Task added to ${goal.name}: ${task.name} (${task.id})`);
+    return task;
+  }
+
+  /**
+   * Find a task by id, looking in the current goal first
+   */
+  findTask(taskId: string): { goal: DAGGoal; task: DAGTask } | null {
+    const current = this.getCurrentGoal();
+    for (const goal of current ? [current, ...this.goals.values()] : this.goals.values()) {
+      const task = goal.tasks.find(t => t.id === taskId);
+      if (task) return { goal, task };
+    }
+    return null;
+  }
+
+  /**
+   * Re-evaluate a goal that has new work, re-opening it if it had finished
+   */
+  private reopenGoal(goal: DAGGoal): void {
+    if (goal.status === 'completed' || goal.status === 'failed') {
+      goal.status = 'active';
+      goal.completedAt = undefined;
+    }
+    this.updateTaskStatuses(goal.tasks);
+    this.updateGoalStatus(goal);
+  }
+
   /**
    * Analyze the DAG structure
    */
@@ -488,6 +1035,54 @@ export class DAGScheduler {
     };
   }
 
+  /**
+   * Get task IDs of the current goal in dependency order
+   *
+   * Dependencies always come before their dependents; ties are broken
+   * by task priority. Used to merge parallel work back in a safe order.
+   */
+  getTopologicalOrder(): string[] {
+    const goal = this.getCurrentGoal();
+    if (!goal) return [];
+
+    const taskMap = new Map(goal.tasks.map(t => [t.id, t]));
+    const inDegree = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+
+    for (const task of goal.tasks) {
+      const deps = task.dependencies.filter(d => taskMap.has(d));
+      inDegree.set(task.id, deps.length);
+      for (const depId of deps) {
+        if (!dependents.has(depId)) {
+          dependents.set(depId, []);
+        }
+        dependents.get(depId)!.push(task.id);
+      }
+    }
+
+    const byPriority = (a: string, b: string) =>
+      (taskMap.get(a)?.priority ?? 0) - (taskMap.get(b)?.priority ?? 0);
+
+    const queue = goal.tasks.filter(t => inDegree.get(t.id) === 0).map(t => t.id).sort(byPriority);
+    const order: string[] = [];
+
+    while (queue.length > 0) {
+      const taskId = queue.shift()!;
+      order.push(taskId);
+
+      for (const depId of dependents.get(taskId) || []) {
+        const degree = (inDegree.get(depId) || 1) - 1;
+        inDegree.set(depId, degree);
+        if (degree === 0) {
+          queue.push(depId);
+          queue.sort(byPriority);
+        }
+      }
+    }
+
+    return order;
+  }
+
   /**
    * Detect cycles in task dependencies using DFS
    */
@@ -617,6 +1212,7 @@ export class DAGScheduler {
       const state = {
         goals: Array.from(this.goals.entries()),
         currentGoalId: this.currentGoalId,
+        rotation: this.rotation,
         savedAt: new Date().toISOString(),
       };
       writeFileSync(DAG_STATE_FILE, JSON.stringify(state, null, 2));
@@ -627,8 +1223,10 @@ export class DAGScheduler {
 
   /**
    * Load state from disk
+   *
+   * `quiet` skips the log line, for readers that poll (the status API).
    */
-  async loadState(): Promise<boolean> {
+  async loadState(options: { quiet?: boolean } = {}): Promise<boolean> {
     if (!existsSync(DAG_STATE_FILE)) {
       return false;
     }
@@ -639,8 +1237,11 @@ export class DAGScheduler {
 
       this.goals = new Map(state.goals);
       this.currentGoalId = state.currentGoalId;
+      this.rotation = state.rotation || this.rotation;
 
-      console.log(`[DAGScheduler] Loaded state from ${state.savedAt}`);
+      if (!options.quiet) {
+        console.log(`[DAGScheduler] Loaded state from ${state.savedAt}`);
+      }
       return true;
     } catch (err) {
       console.error(`[DAGScheduler] Failed to load state: ${err}`);
@@ -648,6 +1249,17 @@ export class DAGScheduler {
     }
   }
 
+  /**
+   * Get progress for all goals, keyed by goal name
+   */
+  getProgress(): Record<string, number> {
+    const progress: Record<string, number> = {};
+    for (const goal of this.getGoals()) {
+      progress[goal.name] = goal.progress;
+    }
+    return progress;
+  }
+
   /**
    * Get progress summary
    */
@@ -671,3 +1283,52 @@ export class DAGScheduler {
 export function createDAGScheduler(): DAGScheduler {
   return new DAGScheduler();
 }
+
+/**
+ * The goals directory in use: `dir`, else ./goals when present, else GOALS_DIR
+ */
+export function resolveGoalsDir(dir?: string): string {
+  if (dir) return dir;
+  const localGoals = join(process.cwd(), 'goals');
+  return existsSync(localGoals) ? localGoals : GOALS_DIR;
+}
+
+/**
+ * Did reloading the goal file add, remove or rename tasks?
+ */
+export function hasTaskChanges(reconciliation: GoalReconciliation): boolean {
+  const { added, removed, renamed } = reconciliation;
+  return added.length > 0 || removed.length > 0 || renamed.length > 0;
+}
+
+/**
+ * One-line summary, e.g. "+1 (build-api) -1 (build-placeholder) 7 kept"
+ */
+export function describeReconciliation(reconciliation: GoalReconciliation): string {
+  const { added, removed, renamed, kept } = reconciliation;
+  return [
+    added.length > 0 ? `+${added.length} (${added.join(', ')})` : '',
+    removed.length > 0 ? `-${removed.length} (${removed.join(', ')})` : '',
+    renamed.length > 0 ? `${renamed.length} renamed (${renamed.map(r => `${r.from} -> ${r.to}`).join(', ')})` : '',
+    `${kept} kept`,
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Can the goal's next cycle do anything? Goals without tasks explore.
+ */
+function hasRunnableTask(goal: DAGGoal): boolean {
+  return goal.tasks.length === 0 || goal.tasks.some(t => t.status === 'ready');
+}
+
+/**
+ * Do two tasks belong to the same objective? Tasks saved before objective
+ * metadata existed are matched by their positional id (<objective>-<n>).
+ */
+function sameObjective(saved: DAGTask, fromFile: DAGTask): boolean {
+  const objective = fromFile.metadata?.objective;
+  if (saved.metadata?.objective !== undefined || objective === undefined) {
+    return saved.metadata?.objective === objective;
+  }
+  return saved.id.startsWith(`${objective}-`);
+}
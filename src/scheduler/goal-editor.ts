@@ -0,0 +1,241 @@
+/**
+ * Goal Editor
+ *
+ * Applies plan changes to the adaptive objectives of a goal file, so the
+ * agent can replace PLACEHOLDER tasks or reorder its plan without editing
+ * JSON by hand.
+ *
+ * Objective tasks without an `id` get one derived from their text, which
+ * changes if the text is edited. Before the first change, every objective
+ * task in the file is written back with the id it already has, so
+ * completion tracking stays with the task from then on.
+ *
+ * Every change, applied or rejected, is appended to the plan change log
+ * (PLAN_CHANGES_FILE, one JSON record per line).
+ */
+
+import { existsSync, readFileSync, writeFileSync, renameSync, appendFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+import { PLAN_CHANGES_FILE } from '../core/config.js';
+import { contentTaskId, objectiveTaskIds, uniqueId, validateGoal } from './goal-schema.js';
+
+/**
+ * A task as proposed by update_plan
+ */
+export interface PlannedTask {
+  name: string;
+  description?: string;
+}
+
+export type PlanChange =
+  | { action: 'add'; objectiveId: string; tasks: PlannedTask[]; after?: string; reason: string }
+  | { action: 'replace'; taskId: string; tasks: PlannedTask[]; reason: string }
+  | { action: 'reorder'; objectiveId: string; order: string[]; reason: string };
+
+export interface PlanChangeRecord {
+  id: string;
+  at: string;
+  goalId: string;
+  file: string;
+  /** Who asked: the task whose session called update_plan, cli, api */
+  by: string;
+  change: PlanChange;
+  applied: boolean;
+  /** Why the change was rejected */
+  error?: string;
+  /** Task ids created and removed */
+  added?: string[];
+  removed?: string[];
+}
+
+/**
+ * Raised when a plan change can't be applied (nothing is written)
+ */
+export class PlanChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanChangeError';
+  }
+}
+
+interface ObjectiveEntry {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+export class GoalEditor {
+  private logFile: string;
+
+  constructor(logFile: string = PLAN_CHANGES_FILE) {
+    this.logFile = logFile;
+  }
+
+  /**
+   * Apply a change to a goal file
+   *
+   * `statusOf` reports the scheduler's view of a task so completed and
+   * running tasks are never replaced. Throws PlanChangeError if the
+   * change is refused; the rejection is logged either way.
+   */
+  apply(
+    file: string,
+    change: PlanChange,
+    options: { goalId: string; by: string; statusOf?: (taskId: string) => string | undefined }
+  ): PlanChangeRecord {
+    const record: PlanChangeRecord = {
+      id: `plan-${randomBytes(3).toString('hex')}`,
+      at: new Date().toISOString(),
+      goalId: options.goalId,
+      file,
+      by: options.by,
+      change,
+      applied: false,
+    };
+
+    try {
+      const config = JSON.parse(readFileSync(file, 'utf-8'));
+      const { added, removed } = editObjectives(config, change, options.statusOf || (() => undefined));
+
+      const validation = validateGoal(config, file);
+      if (!validation.valid) {
+        const problems = validation.errors.map(e => `${e.path || '(goal)'}: ${e.message}`).join('; ');
+        throw new PlanChangeError(`The change would make the goal file invalid - ${problems}`);
+      }
+
+      // Write-then-rename so a crash never leaves half a goal file
+      const temp = `${file}.${record.id}.tmp`;
+      writeFileSync(temp, JSON.stringify(config, null, 2) + '\n');
+      renameSync(temp, file);
+
+      record.applied = true;
+      record.added = added;
+      record.removed = removed;
+      return record;
+    } catch (err: any) {
+      record.error = err.message;
+      throw err instanceof PlanChangeError ? err : new PlanChangeError(err.message);
+    } finally {
+      this.append(record);
+    }
+  }
+
+  /**
+   * Logged changes, oldest first
+   */
+  history(goalId?: string): PlanChangeRecord[] {
+    if (!existsSync(this.logFile)) return [];
+
+    const records: PlanChangeRecord[] = [];
+    for (const line of readFileSync(this.logFile, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Skip a torn line from an interrupted write
+      }
+    }
+    return goalId ? records.filter(r => r.goalId === goalId) : records;
+  }
+
+  private append(record: PlanChangeRecord): void {
+    mkdirSync(dirname(this.logFile), { recursive: true });
+    appendFileSync(this.logFile, JSON.stringify(record) + '\n');
+  }
+}
+
+/**
+ * Apply a change to a parsed goal file in place
+ */
+function editObjectives(
+  config: Record<string, any>,
+  change: PlanChange,
+  statusOf: (taskId: string) => string | undefined
+): { added: string[]; removed: string[] } {
+  if (!Array.isArray(config.objectives) || config.objectives.length === 0) {
+    throw new PlanChangeError('The goal has no objectives to change');
+  }
+
+  const objectives = pinTaskIds(config.objectives);
+  const taken = new Set<string>([
+    ...objectives.flatMap(o => o.tasks.map((t: ObjectiveEntry) => t.id)),
+    ...(config.tasks || []).map((t: { id: string }) => t.id),
+  ]);
+
+  const objective = change.action === 'replace'
+    ? objectives.find(o => o.tasks.some((t: ObjectiveEntry) => t.id === change.taskId))
+    : objectives.find(o => o.id === change.objectiveId);
+
+  if (!objective) {
+    throw new PlanChangeError(change.action === 'replace'
+      ? `No objective has a task "${change.taskId}"`
+      : `No objective "${change.objectiveId}"`);
+  }
+  if (objective.adaptive !== true) {
+    throw new PlanChangeError(`Objective "${objective.id}" is not adaptive - its tasks can't be changed`);
+  }
+
+  const tasks: ObjectiveEntry[] = objective.tasks;
+  const newEntries = (planned: PlannedTask[]) => planned.map(task => {
+    const entry: ObjectiveEntry = { id: uniqueId(contentTaskId(objective.id, task.name), taken), name: task.name };
+    if (task.description) entry.description = task.description;
+    return entry;
+  });
+
+  switch (change.action) {
+    case 'add': {
+      let at = tasks.length;
+      if (change.after) {
+        const index = tasks.findIndex(t => t.id === change.after);
+        if (index === -1) {
+          throw new PlanChangeError(`Objective "${objective.id}" has no task "${change.after}"`);
+        }
+        at = index + 1;
+      }
+      const entries = newEntries(change.tasks);
+      tasks.splice(at, 0, ...entries);
+      return { added: entries.map(e => e.id), removed: [] };
+    }
+
+    case 'replace': {
+      const status = statusOf(change.taskId);
+      if (status === 'completed' || status === 'running') {
+        throw new PlanChangeError(`Task "${change.taskId}" is ${status} and can't be replaced`);
+      }
+      const entries = newEntries(change.tasks);
+      tasks.splice(tasks.findIndex(t => t.id === change.taskId), 1, ...entries);
+      return { added: entries.map(e => e.id), removed: [change.taskId] };
+    }
+
+    case 'reorder': {
+      const current = tasks.map(t => t.id);
+      const missing = current.filter(id => !change.order.includes(id));
+      const unknown = change.order.filter(id => !current.includes(id));
+      if (missing.length > 0 || unknown.length > 0 || change.order.length !== current.length) {
+        const problems = [
+          missing.length > 0 ? `missing ${missing.join(', ')}` : '',
+          unknown.length > 0 ? `unknown ${unknown.join(', ')}` : '',
+        ].filter(Boolean).join('; ');
+        throw new PlanChangeError(`order must list each task of "${objective.id}" once${problems ? ` (${problems})` : ''}`);
+      }
+      objective.tasks = change.order.map(id => tasks.find(t => t.id === id));
+      return { added: [], removed: [] };
+    }
+  }
+}
+
+/**
+ * Give every objective task an explicit id (the one it has now)
+ */
+function pinTaskIds(objectives: Array<Record<string, any>>): Array<Record<string, any>> {
+  const ids = objectiveTaskIds(objectives as Array<{ id: string; tasks?: unknown[] }>);
+
+  objectives.forEach((objective, i) => {
+    objective.tasks = (objective.tasks || []).map((entry: string | ObjectiveEntry, j: number) =>
+      typeof entry === 'string'
+        ? { id: ids[i][j], name: entry }
+        : { id: ids[i][j], name: entry.name, ...(entry.description !== undefined && { description: entry.description }) });
+  });
+  return objectives;
+}
@@ -0,0 +1,459 @@
+/**
+ * Goal File Validation
+ *
+ * Checks goal files against the published JSON Schema
+ * (src/schemas/goal.schema.json) plus the rules a schema can't express:
+ * unique task ids, dependencies that exist, no dependency cycles.
+ *
+ * Every problem carries the path to the offending value, e.g.
+ * `tasks[2].dependencies[0]: unknown task "setup"`. Top-level fields the
+ * schema doesn't know are allowed but reported as warnings, since the
+ * scheduler ignores them.
+ *
+ * The validator implements the subset of draft-07 the schema uses.
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import goalSchema from '../schemas/goal.schema.json' with { type: 'json' };
+
+export interface GoalIssue {
+  /** Path to the value, e.g. tasks[1].acceptance[0].type ('' = the goal itself) */
+  path: string;
+  message: string;
+}
+
+export interface GoalValidation {
+  file: string;
+  valid: boolean;
+  errors: GoalIssue[];
+  warnings: GoalIssue[];
+}
+
+/**
+ * Raised when the loop is asked to run invalid goal files
+ */
+export class GoalValidationError extends Error {
+  constructor(readonly results: GoalValidation[]) {
+    super(`Invalid goal files:\n${results.filter(r => !r.valid).map(formatValidation).join('\n')}`);
+    this.name = 'GoalValidationError';
+  }
+}
+
+type Schema = Record<string, any>;
+
+/** Longest task text slug used in a derived task id */
+const MAX_SLUG_LENGTH = 40;
+
+const ROOT_SCHEMA = goalSchema as Schema;
+
+/**
+ * Validate a parsed goal
+ */
+export function validateGoal(goal: unknown, file: string = '<goal>'): GoalValidation {
+  const errors: GoalIssue[] = [];
+  const warnings: GoalIssue[] = [];
+
+  validateValue(goal, ROOT_SCHEMA, '', errors);
+
+  if (isObject(goal)) {
+    for (const key of Object.keys(goal)) {
+      if (!(key in ROOT_SCHEMA.properties)) {
+        warnings.push({ path: key, message: 'not a goal setting - ignored by the scheduler' });
+      }
+    }
+
+    checkTaskGraph(goal, errors);
+  }
+
+  return { file, valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Read and validate a goal file (syntax errors are reported too)
+ */
+export function validateGoalFile(file: string): GoalValidation {
+  let goal: unknown;
+  try {
+    goal = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (err: any) {
+    const message = err.code === 'ENOENT' ? 'file not found' : `not valid JSON: ${err.message}`;
+    return { file, valid: false, errors: [{ path: '', message }], warnings: [] };
+  }
+  return validateGoal(goal, file);
+}
+
+/**
+ * Validate every *.json file in a goals directory
+ */
+export function validateGoalsDir(dir: string): GoalValidation[] {
+  if (!existsSync(dir)) return [];
+
+  return readdirSync(dir)
+    .filter(f => f.endsWith('.json'))
+    .sort()
+    .map(f => validateGoalFile(join(dir, f)));
+}
+
+/**
+ * Task ids of the `objectives` format: an entry's own `id`, otherwise one
+ * derived from its text (see contentTaskId). Identical tasks get -2, -3...
+ */
+export function objectiveTaskIds(objectives: Array<{ id: string; tasks?: unknown[] }>): string[][] {
+  const explicitIds = objectives.flatMap(objective => (objective.tasks || [])
+    .filter((entry): entry is { id: string } => isObject(entry) && typeof entry.id === 'string')
+    .map(entry => entry.id));
+  const taken = new Set(explicitIds);
+
+  return objectives.map(objective => (objective.tasks || []).map(entry => {
+    if (isObject(entry) && typeof entry.id === 'string') return entry.id;
+
+    const name = typeof entry === 'string' ? entry : isObject(entry) ? entry.name : undefined;
+    return uniqueId(contentTaskId(objective.id, typeof name === 'string' ? name : ''), taken);
+  }));
+}
+
+/**
+ * `<objective>-<slug of the task text>`, so the id stays put when tasks
+ * are added or reordered around it. Long texts are cut short and get a
+ * hash of the full text to keep them apart.
+ */
+export function contentTaskId(objectiveId: string, name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  if (slug.length <= MAX_SLUG_LENGTH) {
+    return `${objectiveId}-${slug || 'task'}`;
+  }
+
+  const hash = createHash('sha1').update(name).digest('hex').slice(0, 6);
+  return `${objectiveId}-${slug.slice(0, MAX_SLUG_LENGTH).replace(/-+$/, '')}-${hash}`;
+}
+
+/**
+ * `base`, or `base-2`, `base-3`... whichever is free (and claim it)
+ */
+export function uniqueId(base: string, taken: Set<string>): string {
+  let id = base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  taken.add(id);
+  return id;
+}
+
+/**
+ * Human-readable report for one file
+ */
+export function formatValidation(result: GoalValidation): string {
+  const lines = [`${result.valid ? '✓' : '✗'} ${result.file}`];
+  for (const issue of result.errors) {
+    lines.push(`    error   ${issue.path || '(goal)'}: ${issue.message}`);
+  }
+  for (const issue of result.warnings) {
+    lines.push(`    warning ${issue.path}: ${issue.message}`);
+  }
+  return lines.join('\n');
+}
+
+// ============================================================
+// Schema keywords
+// ============================================================
+
+function validateValue(value: unknown, schema: Schema, path: string, errors: GoalIssue[]): void {
+  if (schema.$ref) {
+    validateValue(value, resolveRef(schema.$ref), path, errors);
+    return;
+  }
+
+  if (schema.oneOf) {
+    validateOneOf(value, schema.oneOf, path, errors);
+    return;
+  }
+
+  if ('const' in schema && value !== schema.const) {
+    errors.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path, message: `must be one of ${schema.enum.map((v: unknown) => JSON.stringify(v)).join(', ')}` });
+    return;
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    errors.push({ path, message: `must be ${article(schema.type)} (got ${typeName(value)})` });
+    return;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path, message: `${JSON.stringify(value)} does not match ${schema.pattern}` });
+    }
+    if (schema.format) {
+      checkFormat(value, schema.format, path, errors);
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ path, message: `must be >= ${schema.minimum} (got ${value})` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, i) => validateValue(item, schema.items, `${path}[${i}]`, errors));
+    }
+    if (schema.uniqueItems) {
+      const seen = new Set<string>();
+      value.forEach((item, i) => {
+        const key = JSON.stringify(item);
+        if (seen.has(key)) errors.push({ path: `${path}[${i}]`, message: `duplicate ${key}` });
+        seen.add(key);
+      });
+    }
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        errors.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    }
+
+    const properties: Schema = schema.properties || {};
+    for (const [key, child] of Object.entries(value)) {
+      if (key in properties) {
+        validateValue(child, properties[key], joinPath(path, key), errors);
+      } else if (schema.additionalProperties === false) {
+        const hint = closestKey(key, Object.keys(properties));
+        errors.push({
+          path: joinPath(path, key),
+          message: `unknown field${hint ? ` (did you mean "${hint}"?)` : ''}`,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * oneOf: a branch whose `type` const matches the value's `type` is the
+ * intended one, so its errors are reported rather than a generic mismatch
+ */
+function validateOneOf(value: unknown, branches: Schema[], path: string, errors: GoalIssue[]): void {
+  const attempts = branches.map(branch => {
+    const branchErrors: GoalIssue[] = [];
+    validateValue(value, branch, path, branchErrors);
+    return { branch, errors: branchErrors };
+  });
+
+  if (attempts.some(attempt => attempt.errors.length === 0)) return;
+
+  const kind = isObject(value) ? value.type : undefined;
+  const intended = kind !== undefined && attempts.find(attempt => attempt.branch.properties?.type?.const === kind);
+  if (intended) {
+    errors.push(...intended.errors);
+    return;
+  }
+
+  const discriminators = branches
+    .map(branch => branch.properties?.type?.const)
+    .filter((v): v is string => typeof v === 'string');
+  if (discriminators.length > 0) {
+    const got = kind === undefined ? 'missing' : JSON.stringify(kind);
+    errors.push({ path: joinPath(path, 'type'), message: `must be one of ${discriminators.map(d => `"${d}"`).join(', ')} (got ${got})` });
+    return;
+  }
+
+  const types = branches.map(branch => branch.type).filter((t): t is string => typeof t === 'string');
+  if (types.length === branches.length && !types.some(t => matchesType(value, t))) {
+    errors.push({ path, message: `must be ${article(types)} (got ${typeName(value)})` });
+    return;
+  }
+
+  // Otherwise report the branch that got furthest (fewest errors)
+  const closest = attempts.reduce((best, attempt) => attempt.errors.length < best.errors.length ? attempt : best);
+  errors.push(...closest.errors);
+}
+
+function checkFormat(value: string, format: string, path: string, errors: GoalIssue[]): void {
+  if (format === 'date-time' && (!/^\d{4}-\d{2}-\d{2}T/.test(value) || Number.isNaN(Date.parse(value)))) {
+    errors.push({ path, message: `must be an ISO 8601 date-time, e.g. 2026-02-12T12:00:00Z (got ${JSON.stringify(value)})` });
+  } else if (format === 'regex') {
+    try {
+      new RegExp(value);
+    } catch (err: any) {
+      errors.push({ path, message: `is not a valid regular expression: ${err.message}` });
+    }
+  }
+}
+
+function resolveRef(ref: string): Schema {
+  const name = ref.replace('#/definitions/', '');
+  const schema = ROOT_SCHEMA.definitions?.[name];
+  if (!schema) throw new Error(`Goal schema has no definition for ${ref}`);
+  return schema;
+}
+
+// ============================================================
+// Task graph
+// ============================================================
+
+/**
+ * Ids must be unique, dependencies must exist and must not form a cycle
+ */
+function checkTaskGraph(goal: Record<string, any>, errors: GoalIssue[]): void {
+  // Shape problems are already reported; only look at well-formed entries
+  const tasks: Array<{ id: string; dependencies?: string[] }> = (Array.isArray(goal.tasks) ? goal.tasks : [])
+    .map((task: any) => isObject(task) && typeof task.id === 'string'
+      ? { id: task.id, dependencies: Array.isArray(task.dependencies) ? task.dependencies.filter((d: unknown) => typeof d === 'string') : [] }
+      : { id: '' });
+  const index = new Map<string, number>();
+
+  tasks.forEach((task, i) => {
+    if (!task.id) return;
+    if (index.has(task.id)) {
+      errors.push({ path: `tasks[${i}].id`, message: `duplicate task id "${task.id}" (also tasks[${index.get(task.id)}])` });
+    } else {
+      index.set(task.id, i);
+    }
+  });
+
+  tasks.forEach((task, i) => {
+    (task.dependencies || []).forEach((dep, j) => {
+      if (dep === task.id) {
+        errors.push({ path: `tasks[${i}].dependencies[${j}]`, message: 'a task cannot depend on itself' });
+      } else if (!index.has(dep)) {
+        const hint = closestKey(dep, [...index.keys()]);
+        errors.push({ path: `tasks[${i}].dependencies[${j}]`, message: `unknown task "${dep}"${hint ? ` (did you mean "${hint}"?)` : ''}` });
+      }
+    });
+  });
+
+  const objectives: Array<{ id: string; tasks?: unknown[] }> = (Array.isArray(goal.objectives) ? goal.objectives : [])
+    .map((objective: any) => isObject(objective) && typeof objective.id === 'string'
+      ? { id: objective.id, tasks: Array.isArray(objective.tasks) ? objective.tasks : [] }
+      : { id: '' });
+  const objectiveIds = new Map<string, number>();
+  objectives.forEach((objective, i) => {
+    if (!objective.id) return;
+    if (objectiveIds.has(objective.id)) {
+      errors.push({ path: `objectives[${i}].id`, message: `duplicate objective id "${objective.id}"` });
+    }
+    objectiveIds.set(objective.id, i);
+  });
+
+  // Objective tasks share the goal's task id space
+  const seen = new Set(index.keys());
+  objectiveTaskIds(objectives).forEach((ids, i) => ids.forEach((id, j) => {
+    if (seen.has(id)) {
+      errors.push({ path: `objectives[${i}].tasks[${j}]`, message: `duplicate task id "${id}"` });
+    }
+    seen.add(id);
+  }));
+
+  const cycle = findCycle(tasks);
+  if (cycle) {
+    errors.push({ path: `tasks[${index.get(cycle[0])}].dependencies`, message: `dependency cycle: ${cycle.join(' -> ')}` });
+  }
+}
+
+function findCycle(tasks: Array<{ id: string; dependencies?: string[] }>): string[] | null {
+  const deps = new Map(tasks.filter(t => t.id).map(t => [t.id, t.dependencies || []]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done' || !deps.has(id)) return null;
+    if (state.get(id) === 'visiting') {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const dep of deps.get(id)!) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const task of deps.keys()) {
+    const cycle = visit(task);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+function matchesType(value: unknown, type: string | string[]): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  return types.some(t => {
+    switch (t) {
+      case 'object': return isObject(value);
+      case 'array': return Array.isArray(value);
+      case 'integer': return Number.isInteger(value);
+      case 'number': return typeof value === 'number' && Number.isFinite(value);
+      case 'null': return value === null;
+      default: return typeof value === t;
+    }
+  });
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeName(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'number') return `${value}`;
+  return typeof value === 'string' ? JSON.stringify(value) : typeof value;
+}
+
+function article(type: string | string[]): string {
+  const types = Array.isArray(type) ? type : [type];
+  return types.map(t => (/^[aeiou]/.test(t) ? `an ${t}` : `a ${t}`)).join(' or ');
+}
+
+function joinPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? (path ? `${path}.${key}` : key)
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Suggest a known key for a likely typo (edit distance <= 2)
+ */
+function closestKey(key: string, candidates: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = 3;
+  for (const candidate of candidates) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
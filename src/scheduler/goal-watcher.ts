@@ -0,0 +1,84 @@
+/**
+ * Goal File Watcher
+ *
+ * Notices goal files being added, edited or deleted while the agent runs.
+ * fs.watch wakes an idle loop as soon as something changes; the loop then
+ * asks for the changes between cycles and reloads those goals. Changes
+ * are found by comparing file contents, so missed or duplicate watch
+ * events (editors that swap files, network filesystems) do no harm.
+ */
+
+import { existsSync, readFileSync, readdirSync, watch, FSWatcher } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+
+export interface GoalFileChanges {
+  /** New or edited goal files */
+  changed: string[];
+  /** Goal files that no longer exist */
+  removed: string[];
+}
+
+export class GoalWatcher {
+  private dir: string;
+  private fingerprints: Map<string, string>;
+  private watcher: FSWatcher | null = null;
+
+  /**
+   * Files as they are now count as loaded
+   */
+  constructor(dir: string) {
+    this.dir = dir;
+    this.fingerprints = this.scan();
+  }
+
+  /**
+   * Start watching; `onChange` runs on every goal file event
+   *
+   * Returns false if the directory can't be watched - changes are then
+   * only picked up by changes() between cycles.
+   */
+  start(onChange: () => void): boolean {
+    try {
+      this.watcher = watch(this.dir, { persistent: false }, (_event, filename) => {
+        if (!filename || String(filename).endsWith('.json')) onChange();
+      });
+      this.watcher.on('error', () => this.stop());
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  /**
+   * Goal files changed since the last call
+   */
+  changes(): GoalFileChanges {
+    const current = this.scan();
+    const changed = [...current].filter(([file, print]) => this.fingerprints.get(file) !== print).map(([file]) => file);
+    const removed = [...this.fingerprints.keys()].filter(file => !current.has(file));
+
+    this.fingerprints = current;
+    return { changed, removed };
+  }
+
+  private scan(): Map<string, string> {
+    const prints = new Map<string, string>();
+    if (!existsSync(this.dir)) return prints;
+
+    for (const name of readdirSync(this.dir).filter(f => f.endsWith('.json')).sort()) {
+      const file = join(this.dir, name);
+      try {
+        prints.set(file, createHash('sha1').update(readFileSync(file)).digest('hex'));
+      } catch {
+        // Deleted between listing and reading
+      }
+    }
+    return prints;
+  }
+}
@@ -6,11 +6,9 @@
 
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
-import { homedir } from 'os';
-
-const AGENT_DIR = join(homedir(), '.hutch-agent');
-const GOALS_DIR = join(AGENT_DIR, 'goals');
-const COMPLETED_TASKS_FILE = join(AGENT_DIR, 'completed-tasks.json');
+import { AGENT_DIR, GOALS_DIR, COMPLETED_TASKS_FILE, getConfig } from '../core/config.js';
+import { objectiveTaskIds, validateGoal } from './goal-schema.js';
+import { orderGoals } from './scheduling-policy.js';
 
 export interface Task {
   id: string;
@@ -18,6 +16,10 @@ export interface Task {
   description?: string;
   status: 'pending' | 'in_progress' | 'completed' | 'blocked';
   completedAt?: string;
+  /** Objective the task came from */
+  objectiveId?: string;
+  /** The agent may rewrite the task as it learns */
+  adaptive?: boolean;
 }
 
 export interface Goal {
@@ -27,6 +29,8 @@ export interface Goal {
   deadline?: string;
   priority: number;
   workingDirectory?: string;
+  /** Rules the agent is told to follow */
+  constraints?: Record<string, unknown>;
   tasks: Task[];
   status: 'active' | 'completed' | 'paused';
   progress: number;
@@ -34,15 +38,18 @@ export interface Goal {
 
 interface GoalConfig {
   name: string;
+  description?: string;
   deadline?: string;
   priority?: number;
   workingDirectory?: string;
   objectives?: Array<{
     id: string;
-    name: string;
-    tasks: string[];
+    name?: string;
+    description?: string;
+    adaptive?: boolean;
+    tasks: Array<string | { id?: string; name: string; description?: string }>;
   }>;
-  constraints?: Record<string, boolean>;
+  constraints?: Record<string, unknown>;
 }
 
 export class Scheduler {
@@ -109,6 +116,15 @@ export class Scheduler {
       try {
         const content = readFileSync(join(goalsPath, file), 'utf-8');
         const config: GoalConfig = JSON.parse(content);
+
+        const validation = validateGoal(config, file);
+        if (!validation.valid) {
+          for (const issue of validation.errors) {
+            console.error(`Invalid goal ${file}: ${issue.path || '(goal)'}: ${issue.message}`);
+          }
+          continue;
+        }
+
         const goal = this.parseGoalConfig(file.replace('.json', ''), config);
         this.goals.push(goal);
       } catch (err) {
@@ -125,23 +141,39 @@ export class Scheduler {
    */
   private parseGoalConfig(id: string, config: GoalConfig): Goal {
     const tasks: Task[] = [];
+    let migrated = false;
 
     // Convert objectives to tasks
     if (config.objectives) {
-      for (const obj of config.objectives) {
-        for (const taskName of obj.tasks) {
-          const taskId = `${obj.id}-${tasks.length}`;
+      const ids = objectiveTaskIds(config.objectives);
+
+      for (const [i, obj] of config.objectives.entries()) {
+        for (const [j, entry] of obj.tasks.entries()) {
+          const taskId = ids[i][j];
+          // Completed before ids were derived from the task text
+          const positionalId = `${obj.id}-${tasks.length}`;
+          if (positionalId !== taskId && this.completedTaskIds.delete(positionalId)) {
+            this.completedTaskIds.add(taskId);
+            migrated = true;
+          }
           const isCompleted = this.completedTaskIds.has(taskId);
           tasks.push({
             id: taskId,
-            name: taskName,
+            name: typeof entry === 'string' ? entry : entry.name,
+            description: typeof entry === 'string' ? obj.description : entry.description,
             status: isCompleted ? 'completed' : 'pending',
             completedAt: isCompleted ? new Date().toISOString() : undefined,
+            objectiveId: obj.id,
+            adaptive: obj.adaptive,
           });
         }
       }
     }
 
+    if (migrated) {
+      this.saveCompletedTasks();
+    }
+
     // Calculate initial progress
     const completed = tasks.filter(t => t.status === 'completed').length;
     const progress = tasks.length > 0 ? Math.round((completed / tasks.length) * 100) : 0;
@@ -149,10 +181,11 @@ export class Scheduler {
     return {
       id,
       name: config.name,
-      description: '',
+      description: config.description || '',
       deadline: config.deadline,
       priority: config.priority || 1,
       workingDirectory: config.workingDirectory,
+      constraints: config.constraints,
       tasks,
       status: 'active',
       progress,
@@ -168,10 +201,17 @@ export class Scheduler {
 
   /**
    * Get the current goal to work on
+   *
+   * The first active goal in policy order that still has open tasks.
+   * Round-robin turns need the DAGScheduler; here it orders by priority.
    */
   getCurrentGoal(): Goal | null {
-    // Find first active goal
-    return this.goals.find(g => g.status === 'active') || null;
+    const active = this.goals.filter(g => g.status === 'active');
+    const ordered = orderGoals(getConfig().scheduling.policy, active, { goalId: null, turns: 0 });
+
+    return ordered.find(g => g.tasks.some(t => t.status === 'pending' || t.status === 'in_progress'))
+      || ordered[0]
+      || null;
   }
 
   /**
@@ -0,0 +1,128 @@
+/**
+ * Goal Scheduling Policies
+ *
+ * Decides which active goal the next cycle works on:
+ * - priority: lowest `priority` first (the original behaviour)
+ * - round-robin: goals take turns in priority order, each getting
+ *   `weight` cycles in a row (default 1)
+ * - deadline: earliest `deadline` first, goals without one after them
+ *
+ * Whatever the policy, a goal with nothing runnable is passed over for
+ * the next one that has work, so one stuck goal can't starve the rest.
+ */
+
+export type SchedulingPolicy = 'priority' | 'round-robin' | 'deadline';
+
+export const SCHEDULING_POLICIES: readonly SchedulingPolicy[] = ['priority', 'round-robin', 'deadline'];
+
+/**
+ * The goal fields the policies look at
+ */
+export interface SchedulableGoal {
+  id: string;
+  priority: number;
+  deadline?: string;
+  /** Cycles in a row under round-robin */
+  weight?: number;
+}
+
+/**
+ * Whose turn it is under round-robin
+ */
+export interface Rotation {
+  goalId: string | null;
+  /** Cycles the goal has had this turn */
+  turns: number;
+}
+
+/**
+ * Time spent on one goal, as a share of all goals
+ */
+export interface GoalTimeShare {
+  goalId: string;
+  goalName: string;
+  status: string;
+  weight: number;
+  timeSpentMs: number;
+  /** Percent of the time spent on all goals */
+  share: number;
+}
+
+/**
+ * Goals in the order the policy would run them
+ */
+export function orderGoals<T extends SchedulableGoal>(policy: SchedulingPolicy, goals: T[], rotation: Rotation): T[] {
+  const byPriority = [...goals].sort((a, b) => a.priority - b.priority);
+
+  switch (policy) {
+    case 'deadline':
+      return byPriority.sort((a, b) => deadlineOf(a) === deadlineOf(b) ? 0 : deadlineOf(a) - deadlineOf(b));
+
+    case 'round-robin': {
+      const current = byPriority.findIndex(g => g.id === rotation.goalId);
+      if (current === -1) return byPriority;
+
+      // The current goal keeps going until it has used its weight
+      const goal = byPriority[current];
+      const start = rotation.turns < weightOf(goal) ? current : current + 1;
+      return [...byPriority.slice(start), ...byPriority.slice(0, start)];
+    }
+
+    default:
+      return byPriority;
+  }
+}
+
+/**
+ * Pick the goal for the next cycle and advance the rotation
+ *
+ * The first goal in policy order that `hasWork`, or the first goal if
+ * none has (so the caller can report what it is waiting for).
+ */
+export function pickGoal<T extends SchedulableGoal>(
+  policy: SchedulingPolicy,
+  goals: T[],
+  rotation: Rotation,
+  hasWork: (goal: T) => boolean
+): { goal: T | null; passedOver: T[]; rotation: Rotation } {
+  const ordered = orderGoals(policy, goals, rotation);
+  const index = ordered.findIndex(hasWork);
+  const goal = index === -1 ? ordered[0] || null : ordered[index];
+
+  return {
+    goal,
+    passedOver: index > 0 ? ordered.slice(0, index) : [],
+    rotation: !goal
+      ? rotation
+      : goal.id === rotation.goalId
+        ? { goalId: goal.id, turns: rotation.turns + 1 }
+        : { goalId: goal.id, turns: 1 },
+  };
+}
+
+/**
+ * Each goal's share of the time spent so far
+ */
+export function timeShares(
+  goals: Array<SchedulableGoal & { name: string; status: string; timeSpentMs?: number }>
+): GoalTimeShare[] {
+  const total = goals.reduce((sum, g) => sum + (g.timeSpentMs || 0), 0);
+
+  return goals.map(g => ({
+    goalId: g.id,
+    goalName: g.name,
+    status: g.status,
+    weight: weightOf(g),
+    timeSpentMs: g.timeSpentMs || 0,
+    share: total > 0 ? Math.round(((g.timeSpentMs || 0) / total) * 1000) / 10 : 0,
+  }));
+}
+
+function weightOf(goal: SchedulableGoal): number {
+  return goal.weight && goal.weight > 0 ? goal.weight : 1;
+}
+
+function deadlineOf(goal: SchedulableGoal): number {
+  const time = goal.deadline ? new Date(goal.deadline).getTime() : NaN;
+  return isNaN(time) ? Infinity : time;
+}
@@ -5,3 +5,5 @@
  */
 
 export * from './termination.js';
+export * from './plan.js';
+export * from './mcp-server.js';
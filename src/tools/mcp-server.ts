@@ -0,0 +1,158 @@
+/**
+ * NEXUS MCP Server
+ *
+ * Minimal Model Context Protocol server (JSON-RPC 2.0 over stdio) that
+ * exposes the termination tools and update_plan to spawned Claude sessions.
+ *
+ * The server only acknowledges calls - the orchestrator reads the
+ * tool_use events from the session's stream-json output and routes them
+ * through TerminationHandler to decide the task status, and through
+ * GoalEditor to change the plan.
+ *
+ * Claude sees the tools as `mcp__nexus__<tool>`.
+ */
+
+import { fileURLToPath } from 'url';
+import { TERMINATION_TOOL_DEFINITIONS, TerminationHandler } from './termination.js';
+import { PLAN_TOOL_DEFINITIONS, isPlanTool, parsePlanChange } from './plan.js';
+
+export const MCP_SERVER_NAME = 'nexus';
+
+const MCP_TOOL_PREFIX = `mcp__${MCP_SERVER_NAME}__`;
+const DEFAULT_PROTOCOL_VERSION = '2024-11-05';
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, any>;
+}
+
+/**
+ * Build the --mcp-config JSON that launches this server
+ */
+export function getMcpConfig(): string {
+  return JSON.stringify({
+    mcpServers: {
+      [MCP_SERVER_NAME]: {
+        command: process.execPath,
+        args: [fileURLToPath(import.meta.url)],
+      },
+    },
+  });
+}
+
+/**
+ * Strip the MCP namespace from a tool name (mcp__nexus__complete_task -> complete_task)
+ */
+export function stripMcpPrefix(toolName: string): string {
+  return toolName.startsWith(MCP_TOOL_PREFIX) ? toolName.slice(MCP_TOOL_PREFIX.length) : toolName;
+}
+
+/**
+ * Handle a single JSON-RPC request, returning the response (or null for notifications)
+ */
+export function handleMcpRequest(
+  request: JsonRpcRequest,
+  handler: TerminationHandler = new TerminationHandler()
+): Record<string, unknown> | null {
+  const { id, method, params } = request;
+
+  // Notifications get no response
+  if (id === undefined || id === null) {
+    return null;
+  }
+
+  const reply = (result: unknown) => ({ jsonrpc: '2.0', id, result });
+  const fail = (code: number, message: string) => ({ jsonrpc: '2.0', id, error: { code, message } });
+
+  switch (method) {
+    case 'initialize':
+      return reply({
+        protocolVersion: params?.protocolVersion || DEFAULT_PROTOCOL_VERSION,
+        capabilities: { tools: {} },
+        serverInfo: { name: MCP_SERVER_NAME, version: '0.1.0' },
+      });
+
+    case 'ping':
+      return reply({});
+
+    case 'tools/list':
+      return reply({
+        tools: [...TERMINATION_TOOL_DEFINITIONS, ...PLAN_TOOL_DEFINITIONS].map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.input_schema,
+        })),
+      });
+
+    case 'tools/call': {
+      const name = String(params?.name || '');
+      if (isPlanTool(name)) {
+        const change = parsePlanChange(params?.arguments || {});
+        return reply({
+          content: [{
+            type: 'text',
+            text: typeof change === 'string'
+              ? `Invalid update_plan call: ${change}`
+              : `Plan change (${change.action}) recorded. It is applied when this session ends.`,
+          }],
+          isError: typeof change === 'string',
+        });
+      }
+
+      if (!handler.isTerminationTool(name)) {
+        return fail(-32602, `Unknown tool: ${name}`);
+      }
+
+      const result = handler.handleToolCall(name, params?.arguments || {});
+      return reply({
+        content: [{ type: 'text', text: result ? handler.generateToolResponse(result) : 'No result' }],
+        isError: !result,
+      });
+    }
+
+    default:
+      return fail(-32601, `Method not found: ${method}`);
+  }
+}
+
+/**
+ * Serve MCP requests on stdin/stdout until stdin closes
+ */
+export function startMcpServer(): void {
+  const handler = new TerminationHandler();
+  let buffer = '';
+
+  process.stdin.setEncoding('utf-8');
+  process.stdin.on('data', (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let response: Record<string, unknown> | null;
+      try {
+        response = handleMcpRequest(JSON.parse(line), handler);
+      } catch {
+        response = { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } };
+      }
+
+      if (response) {
+        process.stdout.write(JSON.stringify(response) + '\n');
+      }
+    }
+  });
+
+  process.stdin.on('end', () => process.exit(0));
+}
+
+// Run if executed directly (works in both Node and Bun)
+const isMain = import.meta.url === `file://${process.argv[1]}` ||
+               (import.meta as any).main === true;
+
+if (isMain) {
+  startMcpServer();
+}
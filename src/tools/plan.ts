@@ -0,0 +1,142 @@
+/**
+ * NEXUS Plan Tool
+ *
+ * update_plan lets a session add, replace or reorder the tasks of an
+ * adaptive objective instead of editing the goal file by hand. Like the
+ * termination tools, the MCP server only checks the call's shape; the
+ * orchestrator reads the tool_use from the session output and applies it
+ * through GoalEditor once the session ends.
+ */
+
+import type { PlanChange, PlannedTask } from '../scheduler/goal-editor.js';
+
+export const PLAN_TOOL_DEFINITIONS = [
+  {
+    name: 'update_plan',
+    description: 'Change the task list of an adaptive objective: add new tasks, replace a task (e.g. a PLACEHOLDER) with concrete ones, or reorder tasks. Use this instead of editing the goal file. Completed and running tasks cannot be replaced. Changes are applied when your session ends.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['add', 'replace', 'reorder'],
+        },
+        objective_id: {
+          type: 'string',
+          description: 'Objective to change (add, reorder)',
+        },
+        task_id: {
+          type: 'string',
+          description: 'Task to replace (replace)',
+        },
+        after: {
+          type: 'string',
+          description: 'Insert the new tasks after this task id (add; default: at the end)',
+        },
+        tasks: {
+          type: 'array',
+          description: 'New tasks (add, replace)',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string' },
+              description: { type: 'string' },
+            },
+            required: ['name'],
+          },
+        },
+        order: {
+          type: 'array',
+          description: 'Every task id of the objective in the new order (reorder)',
+          items: { type: 'string' },
+        },
+        reason: {
+          type: 'string',
+          description: 'Why the plan is changing',
+        },
+      },
+      required: ['action', 'reason'],
+    },
+  },
+];
+
+/**
+ * Is a tool name a plan tool?
+ */
+export function isPlanTool(toolName: string): boolean {
+  return toolName === 'update_plan';
+}
+
+/**
+ * Turn update_plan input into a PlanChange, or an error message
+ */
+export function parsePlanChange(input: Record<string, unknown>): PlanChange | string {
+  const reason = String(input.reason || '').trim();
+  if (!reason) return 'reason is required';
+
+  switch (input.action) {
+    case 'add': {
+      const tasks = parseTasks(input.tasks);
+      if (!input.objective_id) return 'add needs objective_id';
+      if (typeof tasks === 'string') return tasks;
+      return {
+        action: 'add',
+        objectiveId: String(input.objective_id),
+        tasks,
+        after: input.after ? String(input.after) : undefined,
+        reason,
+      };
+    }
+
+    case 'replace': {
+      const tasks = parseTasks(input.tasks);
+      if (!input.task_id) return 'replace needs task_id';
+      if (typeof tasks === 'string') return tasks;
+      return { action: 'replace', taskId: String(input.task_id), tasks, reason };
+    }
+
+    case 'reorder':
+      if (!input.objective_id) return 'reorder needs objective_id';
+      if (!Array.isArray(input.order) || input.order.length === 0) return 'reorder needs order (every task id of the objective)';
+      return {
+        action: 'reorder',
+        objectiveId: String(input.objective_id),
+        order: input.order.map(String),
+        reason,
+      };
+
+    default:
+      return `action must be add, replace or reorder (got ${JSON.stringify(input.action)})`;
+  }
+}
+
+/**
+ * Prompt instructions for goals with adaptive objectives
+ */
+export function getPlanInstructions(): string {
+  return `
+## Changing the Plan
+
+Objectives marked adaptive may be rewritten as you learn. Use the **update_plan** tool - never edit the goal file directly:
+- add: append tasks to an objective (or insert them \`after\` a task id)
+- replace: swap a task (e.g. a PLACEHOLDER) for one or more concrete tasks
+- reorder: give every task id of the objective in the new order
+
+Completed and running tasks are kept. Changes take effect when your session ends; you still need to finish the current task with a termination tool.
+`;
+}
+
+function parseTasks(input: unknown): PlannedTask[] | string {
+  if (!Array.isArray(input) || input.length === 0) return 'tasks must list at least one task';
+
+  const tasks: PlannedTask[] = [];
+  for (const item of input) {
+    const name = typeof item === 'string' ? item : item?.name;
+    if (typeof name !== 'string' || !name.trim()) return 'every task needs a name';
+    tasks.push({
+      name: name.trim(),
+      description: typeof item?.description === 'string' ? item.description : undefined,
+    });
+  }
+  return tasks;
+}